@@ -0,0 +1,172 @@
+// Command-line front end to src/calc.ts for scripted sizing runs:
+//   npm run cli -- --catalog public/motors/index.json --weight 10 --voltage 12S --capacity 20
+// Without --motor every catalog motor is evaluated, without --prop every prop of each motor.
+import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  FRAME_LAYOUTS, FIT_MODELS, CHEMISTRIES, byId, layoutThrustFactor, buildSeries, propDataAt, cellsOf,
+  hoverAt, buildFlightCurve, densityCorrected, airDensity, SEA_LEVEL_RHO,
+  type Battery, type Catalog, type CatalogEntry, type FitModel, type MotorSpec,
+} from "../src/calc";
+
+const USAGE = `Usage: motor-check --catalog <index.json|url> --weight <kg> [options]
+
+Selection
+  --motor <id>         motor id from the catalog (repeatable; default: all)
+  --prop <id>          prop id (repeatable; default: every prop of each motor)
+  --voltage <key>      spec voltage, e.g. 12S (default 12S)
+  --estimate           estimate from other voltages when a prop wasn't measured at --voltage
+
+Aircraft
+  --weight <kg>        takeoff weight (required)
+  --layout <id>        ${FRAME_LAYOUTS.map(l => l.id).join(' | ')} (default quad)
+  --coax-loss <pct>    lower-prop thrust loss on coaxial layouts (default 20)
+  --model <id>         ${FIT_MODELS.map(m => m.id).join(' | ')} (default linear)
+  --elevation <m>      correct for air density (with --temp, default sea level as published)
+  --temp <°C>          air temperature (default 15)
+
+Battery & power train
+  --capacity <Ah>      pack capacity (default 20)
+  --usable <pct>       usable capacity (default 80)
+  --cells <n>          pack cells (default: from --voltage)
+  --chemistry <id>     ${CHEMISTRIES.map(c => c.id).join(' | ')} (default lipo)
+  --ir <mΩ>            per-cell resistance (default: chemistry's)
+  --esc-eff <pct>      ESC efficiency (default 100)
+  --wiring <mΩ>        wiring + connector resistance (default 0)
+  --aux <W|nA>         avionics load in W, or amps with an A suffix, e.g. 4A (default 0)
+
+Output
+  --format <json|csv>  (default json)
+  --curves             include the power (current vs thrust) and flight-time vs weight curves
+  --points <n>         flight-curve samples (default 40)
+`;
+
+function fail(msg: string): never {
+  process.stderr.write(`motor-check: ${msg}\n`);
+  process.exit(2);
+}
+function num(v: string | undefined, fallback: number, name: string): number {
+  if(v == null) return fallback;
+  const n = Number(v);
+  if(!Number.isFinite(n)) fail(`--${name} must be a number (got "${v}")`);
+  return n;
+}
+
+// Catalog and spec files may be local paths or http(s) URLs; spec urls resolve against the catalog
+const isUrl = (ref: string)=> /^https?:\/\//i.test(ref);
+async function loadJson(ref: string): Promise<unknown> {
+  if(isUrl(ref)){
+    const res = await fetch(ref);
+    if(!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.json();
+  }
+  return JSON.parse(await readFile(ref, "utf8"));
+}
+function resolveRef(ref: string, base: string): string {
+  if(isUrl(ref)) return ref;
+  if(isUrl(base)) return new URL(ref, base).href;
+  return resolve(dirname(base), ref);
+}
+
+function csvCell(v: unknown): string {
+  const s = v == null ? '' : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(r => r.map(csvCell).join(',')).join('\n') + '\n';
+}
+const round = (v: number | null | undefined, d = 3)=> v == null || !Number.isFinite(v) ? null : Number(v.toFixed(d));
+
+async function main(){
+  const { values } = parseArgs({
+    options: {
+      catalog: { type:'string' }, motor: { type:'string', multiple:true }, prop: { type:'string', multiple:true },
+      voltage: { type:'string', default:'12S' }, estimate: { type:'boolean', default:false },
+      weight: { type:'string' }, layout: { type:'string', default:'quad' }, 'coax-loss': { type:'string' },
+      model: { type:'string', default:'linear' }, elevation: { type:'string' }, temp: { type:'string' },
+      capacity: { type:'string' }, usable: { type:'string' }, cells: { type:'string' }, chemistry: { type:'string', default:'lipo' },
+      ir: { type:'string' }, 'esc-eff': { type:'string' }, wiring: { type:'string' }, aux: { type:'string' },
+      format: { type:'string', default:'json' }, curves: { type:'boolean', default:false }, points: { type:'string' },
+      help: { type:'boolean', short:'h', default:false },
+    },
+  });
+  if(values.help){ process.stdout.write(USAGE); return; }
+  if(!values.catalog) fail(`--catalog is required\n\n${USAGE}`);
+  if(values.weight == null) fail(`--weight is required\n\n${USAGE}`);
+
+  const layout = byId(FRAME_LAYOUTS, values.layout) || fail(`unknown layout "${values.layout}"`);
+  const model = (byId(FIT_MODELS, values.model)?.id || fail(`unknown model "${values.model}"`)) as FitModel;
+  if(!byId(CHEMISTRIES, values.chemistry)) fail(`unknown chemistry "${values.chemistry}"`);
+  if(values.format !== 'json' && values.format !== 'csv') fail(`--format must be json or csv`);
+  const voltage = values.voltage as string;
+  const specCells = cellsOf(voltage);
+  const takeoffKg = num(values.weight, 0, 'weight');
+  const motorCount = layout.motors;
+  const thrustFactor = layoutThrustFactor(layout, num(values['coax-loss'], 20, 'coax-loss'));
+  const aux = String(values.aux ?? '0').match(/^\s*(\d+(?:\.\d+)?)\s*([aAwW]?)\s*$/) || fail(`--aux must look like 30 or 4A (got "${values.aux}")`);
+  const battery: Battery = {
+    capacityAh: num(values.capacity, 20, 'capacity'),
+    usablePct: num(values.usable, 80, 'usable'),
+    cells: num(values.cells, specCells || 0, 'cells'),
+    chemistry: values.chemistry,
+    irMohm: values.ir == null ? undefined : num(values.ir, 0, 'ir'),
+    escEffPct: num(values['esc-eff'], 100, 'esc-eff'),
+    wiringMohm: num(values.wiring, 0, 'wiring'),
+    auxLoad: Number(aux[1]), auxUnit: aux[2].toUpperCase() === 'A' ? 'A' : 'W',
+  };
+  const sigma = values.elevation == null && values.temp == null ? 1
+    : airDensity(num(values.elevation, 0, 'elevation'), num(values.temp, 15, 'temp')) / SEA_LEVEL_RHO;
+  const points = num(values.points, 40, 'points');
+
+  const catalogRef = values.catalog;
+  const raw = await loadJson(catalogRef).catch(e => fail(`can't read catalog ${catalogRef}: ${e.message}`)) as Catalog;
+  const catalog: CatalogEntry[] = Array.isArray(raw) ? raw : raw?.catalog;
+  if(!Array.isArray(catalog)) fail(`${catalogRef} has no "catalog" array`);
+  const motorIds = values.motor || catalog.map(m => m.id);
+  const missing = motorIds.filter(id => !byId(catalog, id));
+  if(missing.length) fail(`not in the catalog: ${missing.join(', ')}`);
+
+  const results = [];
+  for(const id of motorIds){
+    const entry = byId(catalog, id) as CatalogEntry;
+    const spec = await loadJson(resolveRef(entry.url, catalogRef)).catch(e => fail(`can't read ${entry.url}: ${e.message}`)) as MotorSpec;
+    const props = values.prop ? (spec.props || []).filter(p => values.prop!.includes(p.id)) : (spec.props || []);
+    if(values.motor && values.prop && !props.length) fail(`${id} has no prop ${values.prop.join(' or ')}`);
+    for(const prop of props){
+      const data = propDataAt(prop, voltage, values.estimate as boolean);
+      const series = buildSeries(densityCorrected(data?.points, sigma));
+      const h = hoverAt(series, { takeoffKg, motorCount, thrustFactor, specCells, battery, model });
+      results.push({
+        motor: id, motorName: spec.name || entry.name || id, prop: prop.id, propName: prop.name || prop.id,
+        voltage, estFrom: data?.estFrom || null, takeoffKg, liftKgPerMotor: round(h.liftKg),
+        ...(h.hover.ok
+          ? { ok: true, reason: null, currentA: round(h.hover.currentA), totalA: round(h.hover.currentA * motorCount, 2), throttle: round(h.hover.throttle, 1), extrapolated: h.hover.noteLow }
+          : { ok: false, reason: data ? h.hover.reason : 'no-data', currentA: null, totalA: null, throttle: null, extrapolated: false }),
+        flightMin: round(h.flight?.minutes, 1), flightEnd: h.flight?.end ?? null, energyWh: round(h.flight?.wh, 0), avgBatteryA: round(h.flight?.avgA, 2),
+        tw: round(h.tw, 2), gPerW: round(h.gpw, 2),
+        ...(values.curves ? {
+          curves: {
+            power: series.map(p => ({ currentA: p.x, thrustKg: p.y, throttle: p.throttle })),
+            flight: buildFlightCurve(series, motorCount, thrustFactor, specCells, battery, points, model).map(d => ({ weightKg: round(d.w), minutes: round(d.t, 2), est: d.est })),
+          },
+        } : {}),
+      });
+    }
+  }
+
+  if(values.format === 'json'){
+    process.stdout.write(JSON.stringify(results, null, 2) + '\n');
+  } else if(values.curves){
+    // Long format: one row per curve point
+    process.stdout.write(toCsv(['motor', 'prop', 'curve', 'x', 'y', 'throttle', 'est'], results.flatMap(r => [
+      ...(r.curves?.power || []).map(p => [r.motor, r.prop, 'power', p.currentA, p.thrustKg, p.throttle, false]),
+      ...(r.curves?.flight || []).map(p => [r.motor, r.prop, 'flight', p.weightKg, p.minutes, '', p.est]),
+    ])));
+  } else {
+    const cols = ['motor', 'prop', 'voltage', 'takeoffKg', 'liftKgPerMotor', 'ok', 'reason', 'currentA', 'totalA', 'throttle', 'extrapolated', 'flightMin', 'flightEnd', 'energyWh', 'avgBatteryA', 'tw', 'gPerW'] as const;
+    process.stdout.write(toCsv([...cols], results.map(r => cols.map(c => r[c]))));
+  }
+}
+
+main().catch(e => { process.stderr.write(`motor-check: ${e?.stack || e}\n`); process.exit(1); });
@@ -1,71 +1,14 @@
-import React, { useMemo, useState, useEffect } from "react";
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceArea, ReferenceLine } from "recharts";
+import React, { useMemo, useState, useEffect, useRef, useCallback } from "react";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceArea, ReferenceLine, ReferenceDot } from "recharts";
+import {
+  FRAME_LAYOUTS, layoutThrustFactor, byId, buildSeries, interpolateCurrentForLift,
+  FIT_MODELS, seriesFits, fitQuality, fitCurve, seriesTotals,
+  cellsOf, propDataAt, CHEMISTRIES, SPEC_CELL_V, SIM_STEP_S, openPack, drawPack, simulateFlight,
+  batteryCurrent, motorCurrentLimit, hoverAt, buildFlightCurve, packKgPerAh, buildCapacityCurve, curveOptimum,
+  perfPoint, perfPoints, SEA_LEVEL_RHO, airDensity, densityAltitude, densityCorrected,
+} from "./calc";
 
 // ================= Helpers =================
-function byId(arr, id){ return (arr||[]).find(a => a.id === id); }
-function buildSeries(points){
-  if(!points) return [];
-  return points
-    .filter(p => Number.isFinite(p.current) && Number.isFinite(p.thrust_kg))
-    .map(p => ({ x:p.current, y:p.thrust_kg, throttle:p.throttle }))
-    .sort((a,b)=> a.x - b.x);
-}
-function interpolateCurrentForLift(series, liftKgPerMotor){
-  if(!series || !series.length) return { ok:false, reason:'no-data' };
-  const pts = [...series].sort((a,b)=>a.y-b.y);
-  const min = pts[0], max = pts[pts.length-1];
-
-  // Below the first real thrust: extrapolate using the first two points.
-  // Prefer a power-law fit (I ≈ a * T^b). If not possible, fall back to linear.
-  if(liftKgPerMotor < min.y){
-    if(pts.length >= 2){
-      const a = pts[0], b = pts[1];
-      const dy = (b.y - a.y) || 1e-9;
-      // Try power-law on positive pairs
-      if(a.y>0 && b.y>0 && a.x>0 && b.x>0){
-        const bExp = Math.log(b.x/a.x) / Math.log(b.y/a.y); // exponent b in I=a*T^b
-        const aCoef = a.x / Math.pow(a.y, bExp);            // coefficient a
-        const currentPL = aCoef * Math.pow(Math.max(liftKgPerMotor, 1e-9), bExp);
-        // Throttle: if available, fit throttle ≈ c * T^d; else approximate thr ∝ sqrt(T)
-        let thr;
-        if((a.throttle??0)>0 && (b.throttle??0)>0){
-          const dExp = Math.log((b.throttle||1)/(a.throttle||1)) / Math.log(b.y/a.y);
-          const cCoef = (a.throttle||1) / Math.pow(a.y, dExp);
-          thr = cCoef * Math.pow(Math.max(liftKgPerMotor, 1e-9), dExp);
-        } else {
-          // T ~ RPM^2, throttle ~ RPM → throttle ~ sqrt(T)
-          const k = (a.throttle ?? 0) / Math.sqrt(a.y || 1e-9);
-          thr = k * Math.sqrt(Math.max(liftKgPerMotor, 0));
-        }
-        return { ok:true, currentA: Math.max(0,currentPL), throttle: Math.max(0,thr), noteLow:true };
-      }
-      // Fallback: linear in thrust-current and thrust-throttle
-      const slopeIx = (b.x - a.x) / dy;           // dI/dT
-      const slopeTh = ((b.throttle ?? 0) - (a.throttle ?? 0)) / dy; // dThr/dT
-      const current = Math.max(0, a.x + (liftKgPerMotor - a.y) * slopeIx);
-      const thr = Math.max(0, (a.throttle ?? 0) + (liftKgPerMotor - a.y) * slopeTh);
-      return { ok:true, currentA: current, throttle: thr, noteLow:true };
-    }
-    // Fallback: single point → scale towards origin
-    const scale = Math.max(0, liftKgPerMotor / Math.max(min.y, 1e-9));
-    return { ok:true, currentA: min.x * scale, throttle: (min.throttle ?? 0) * scale, noteLow:true };
-  }
-
-  if(liftKgPerMotor > max.y){
-    return { ok:false, reason:'exceeds-max' };
-  }
-
-  for(let i=0;i<pts.length-1;i++){
-    const a=pts[i], b=pts[i+1];
-    if(liftKgPerMotor >= a.y && liftKgPerMotor <= b.y){
-      const t = (liftKgPerMotor - a.y) / ((b.y - a.y) || 1);
-      const current = a.x + t*(b.x - a.x);
-      const thr = (a.throttle ?? 0) + t*((b.throttle ?? 0) - (a.throttle ?? 0));
-      return { ok:true, currentA:current, throttle:thr, noteLow:false };
-    }
-  }
-  return { ok:false, reason:'segment-not-found' };
-}
 // Converts github.com URLs to raw.githubusercontent.com and fixes refs/heads paths
 function normalizeCatalogUrl(u){
   try{
@@ -79,311 +22,2290 @@ function normalizeCatalogUrl(u){
     return u;
   }catch{ return u; }
 }
-// Weight→time curve from a per-motor series
-function buildFlightCurve(series, motorCount, capacityAh, usablePct, points = 60){
-  if(!series || !series.length) return [];
-  const ys = series.map(p=>p.y).filter(n=>Number.isFinite(n));
-  const minPerMotorLift = ys.length ? Math.min(...ys) : 0;
-  const maxPerMotorLift = ys.length ? Math.max(...ys) : 0;
+// Voltage keys ("6S", "12S", …) measured across specs, ordered by cell count
+function voltagesIn(specs){
+  const keys = new Set();
+  (specs||[]).forEach(spec => (spec?.props||[]).forEach(p => Object.keys(p.data||{}).forEach(k => { if(p.data[k]?.length) keys.add(k); })));
+  return [...keys].sort((a,b)=> (cellsOf(a) ?? Infinity) - (cellsOf(b) ?? Infinity) || a.localeCompare(b));
+}
+function splitCurve(curve, xKey = 'w'){
+  if(!curve || !curve.length) return { known:[], est:[] };
+  const known = curve.filter(d=>!d.est);
+  const est = curve.filter(d=> d.est);
+  if(known.length && est.length){
+    // First known point is the boundary (sorted in buildFlightCurve)
+    const boundary = known[0];
+    const lastEst = est[est.length-1];
+    if(!lastEst || Math.abs(lastEst[xKey] - boundary[xKey]) > 1e-6){
+      est.push({ ...boundary, est:true }); // duplicate boundary into est to stitch lines
+    }
+  }
+  return { known, est };
+}
 
-  // Sample by per‑motor lift so we can place a point exactly at the real boundary
-  const startPer = Math.max(0, minPerMotorLift * 0.7);   // extend 30% below
-  const endPer   = Math.max(startPer + 0.01, maxPerMotorLift * 0.99);
-  const usableAh = capacityAh * (usablePct/100);
-  const floorPerMotorA = 0.1; // smaller floor so the orange segment isn't flat
+// Per-motor performance views derived from a series and the voltage its data was measured at
+const PERF_VIEWS = [
+  { id:'gpw',      name:'Efficiency',         x:'thrust',   y:'gpw',    xLabel:'Thrust per motor (kg)', yLabel:'Efficiency (g/W)', xUnit:' kg', yUnit:' g/W' },
+  { id:'power',    name:'Power',              x:'thrust',   y:'power',  xLabel:'Thrust per motor (kg)', yLabel:'Electrical power (W)', xUnit:' kg', yUnit:' W' },
+  { id:'throttle', name:'Thrust vs throttle', x:'throttle', y:'thrust', xLabel:'Throttle (%)', yLabel:'Thrust per motor (kg)', xUnit:'%', yUnit:' kg' },
+];
+// Comparison entries. Colors avoid amber, which marks estimated segments.
+const ENTRY_COLORS = ['#2563eb', '#16a34a', '#dc2626', '#9333ea', '#0891b2', '#db2777', '#65a30d', '#475569'];
+function newEntry(list, patch = {}){
+  const key = list.reduce((m, e) => Math.max(m, e.key), 0) + 1;
+  const used = new Set(list.map(e => e.color));
+  const color = ENTRY_COLORS.find(c => !used.has(c)) || ENTRY_COLORS[(key - 1) % ENTRY_COLORS.length];
+  return { key, motorId:undefined, propId:undefined, color, ...patch };
+}
 
-  const out = [];
-  for(let i=0;i<points;i++){
-    const perMotor = startPer + (endPer - startPer) * (i/(points-1));
-    const interp = interpolateCurrentForLift(series, perMotor);
-    if(interp && interp.ok){
-      const perMotorA = Math.max(interp.currentA || 0, floorPerMotorA);
-      const totalCurrent = perMotorA * motorCount;
-      const minutes = totalCurrent > 0 ? Math.min((usableAh / totalCurrent) * 60, 120) : 0;
-      const isEst = perMotor < minPerMotorLift - 1e-9;
-      out.push({ w: perMotor * motorCount, t: minutes, est: isEst });
+// ---- Catalog sources ----
+const BUNDLED_CATALOG = './motors/index.json';
+const FETCH_CACHE_KEY = 'motor-check:fetch-cache';
+function loadFetchCache(){
+  try{ return JSON.parse(localStorage.getItem(FETCH_CACHE_KEY) || '{}') || {}; }catch{ return {}; }
+}
+function cacheFetched(url, data){
+  try{ localStorage.setItem(FETCH_CACHE_KEY, JSON.stringify({ ...loadFetchCache(), [url]: { data, at: Date.now() } })); }catch{ /* storage full or disabled */ }
+}
+// Fetch JSON and keep the last good copy; when the source is down the copy is returned with
+// `stale` describing the failure, so a dead source doesn't blank the UI
+async function fetchJsonCached(url){
+  try{
+    const res = await fetch(url, { cache:'no-store' });
+    if(!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = await res.json();
+    cacheFetched(url, data);
+    return { data, stale: null };
+  }catch(e){
+    const hit = loadFetchCache()[url];
+    if(hit) return { data: hit.data, stale: { error: e instanceof SyntaxError ? `Invalid JSON (${e.message})` : (e?.message || String(e)), at: hit.at } };
+    throw e;
+  }
+}
+function absoluteUrl(u, base = window.location.href){
+  try{ return new URL(u, base).href; }catch{ return u; }
+}
+function sourceLabel(url, data){
+  if(url === BUNDLED_CATALOG) return 'Bundled';
+  if(data && typeof data.name === 'string' && data.name) return data.name;
+  try{ return new URL(normalizeCatalogUrl(url), window.location.href).host || url; }catch{ return url; }
+}
+// One picker list from every loaded source, in source order. Motor urls resolve against their
+// catalog's own location. A later source reusing an id is renamed id@source; the same spec file
+// listed by two sources is kept once.
+function mergeCatalogs(sources){
+  const list = [], notes = [], ids = new Set(), urls = new Map();
+  sources.forEach(s => (s.list || []).forEach(m => {
+    const url = m.url ? absoluteUrl(m.url, s.base) : m.url;
+    if(url && urls.has(url)){ notes.push({ source: s.url, level:'warn', msg:`"${m.id}" is the same file as "${urls.get(url)}" from an earlier source; listed once.` }); return; }
+    let id = m.id;
+    if(ids.has(id)){
+      const base = `${m.id}@${slugify(s.label) || 'source'}`;
+      id = base;
+      for(let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+      notes.push({ source: s.url, level:'warn', msg:`Motor id "${m.id}" is already used by an earlier source; listed as "${id}".` });
     }
+    ids.add(id);
+    if(url) urls.set(url, id);
+    list.push({ ...m, id, url, source: s.label });
+  }));
+  return { list, notes };
+}
+
+// ---- Local (browser-stored) motor specs ----
+const USER_SPECS_KEY = 'motor-check:user-specs';
+const LOCAL_PREFIX = 'local:';
+function loadUserSpecs(){
+  try{
+    const list = JSON.parse(localStorage.getItem(USER_SPECS_KEY) || '[]');
+    return Array.isArray(list) ? list : [];
+  }catch{ return []; }
+}
+function saveUserSpecs(list){
+  try{ localStorage.setItem(USER_SPECS_KEY, JSON.stringify(list)); }catch{ /* storage full or disabled */ }
+}
+// Catalog entry for a local spec; the prefixed id keeps it apart from a catalog motor with the same id
+function localCatalogEntry(spec){
+  return { id: LOCAL_PREFIX + spec.id, name: `${spec.name || spec.id} (local)`, url: LOCAL_PREFIX + spec.id, source: 'Local' };
+}
+function isLocalUrl(url){ return typeof url === 'string' && url.startsWith(LOCAL_PREFIX); }
+function slugify(s){ return String(s || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''); }
+function downloadText(filename, text, type = 'application/json'){
+  downloadBlob(filename, new Blob([text], { type }));
+}
+function downloadBlob(filename, blob){
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  setTimeout(()=> URL.revokeObjectURL(url), 0);
+}
+
+// ---- Safety checks ----
+// Each check grades a value against pass/warn limits; `higher` says which direction is safe.
+const SAFETY_CHECKS = [
+  { id:'tw',         name:'Thrust-to-weight',         unit:'',  higher:true,  pass:2,  warn:1.6 },
+  { id:'throttle',   name:'Hover throttle',           unit:'%', higher:false, pass:60, warn:75 },
+  { id:'currentUse', name:'Hover current vs battery max', unit:'%', higher:false, pass:50, warn:80 },
+  { id:'motorOut',   name:'Motor-out hover (per-motor max thrust used)', unit:'%', higher:false, pass:80, warn:100 },
+];
+const SAFETY_KEY = 'motor-check:safety-thresholds';
+function loadSafetyThresholds(){
+  const defaults = Object.fromEntries(SAFETY_CHECKS.map(c => [c.id, { pass:c.pass, warn:c.warn }]));
+  try{
+    const saved = JSON.parse(localStorage.getItem(SAFETY_KEY) || '{}');
+    return Object.fromEntries(Object.entries(defaults).map(([id, d]) => [id, Object.fromEntries(Object.entries(d).map(([k, v]) => [k, Number.isFinite(saved?.[id]?.[k]) ? saved[id][k] : v]))]));
   }
-  // Ensure a point exactly at the boundary so orange and blue/green touch
-  if(minPerMotorLift > 0){
-    const b = interpolateCurrentForLift(series, minPerMotorLift);
-    if(b && b.ok){
-      const perMotorA = Math.max(b.currentA || 0, floorPerMotorA);
-      const totalCurrent = perMotorA * motorCount;
-      const minutes = totalCurrent > 0 ? Math.min((usableAh / totalCurrent) * 60, 120) : 0;
-      const boundary = { w: minPerMotorLift * motorCount, t: minutes, est: false };
-      // de-dup close weights
-      const exists = out.some(p => Math.abs(p.w - boundary.w) < 1e-6);
-      if(!exists) out.push(boundary);
+  catch{ return defaults; }
+}
+function gradeCheck(check, value, limits){
+  if(!Number.isFinite(value)) return 'fail';
+  const ok = (limit)=> check.higher ? value >= limit : value <= limit;
+  return ok(limits.pass) ? 'pass' : ok(limits.warn) ? 'warn' : 'fail';
+}
+// Per-motor lift needed to hover with one motor out, or null if the layout can't stay controllable.
+// Flat frames idle the opposite motor to keep yaw/roll balance; on coaxial frames the failed
+// motor's partner carries that arm alone (and no longer sits in a downwash).
+function motorOutLiftPerMotor(layout, takeoffKg){
+  if(layout.coaxial) return takeoffKg / (layout.motors / 2);
+  if(layout.motors <= 4) return null;
+  return takeoffKg / (layout.motors - 2);
+}
+function evaluateSafety({ series, hover, layout, motorCount, thrustFactor, takeoffKg, batteryMaxA, battery, specCells }, thresholds){
+  const totals = seriesTotals(series, motorCount, thrustFactor);
+  if(!totals) return [];
+  const maxPerMotor = totals.maxThrustKg / (motorCount * thrustFactor);
+  const outLift = motorOutLiftPerMotor(layout, takeoffKg);
+  const pack = openPack(battery, specCells);
+  const values = {
+    tw: takeoffKg > 0 ? totals.maxThrustKg / takeoffKg : NaN,
+    throttle: hover?.ok ? hover.throttle : NaN,
+    currentUse: hover?.ok && batteryMaxA > 0 ? batteryCurrent(hover.currentA * motorCount, pack, (specCells || pack.cells) * SPEC_CELL_V) / batteryMaxA * 100 : NaN,
+    motorOut: outLift != null && maxPerMotor > 0 ? outLift / maxPerMotor * 100 : NaN,
+  };
+  const notes = {
+    throttle: !hover?.ok ? 'can’t hover' : hover.noteLow ? 'extrapolated' : null,
+    currentUse: !hover?.ok ? 'can’t hover' : null,
+    motorOut: outLift == null ? `${layout.name} can’t stay controlled after a motor loss` : `needs ${outLift.toFixed(2)} of ${maxPerMotor.toFixed(2)} kg per motor`,
+  };
+  return SAFETY_CHECKS.map(c => ({
+    ...c,
+    value: values[c.id],
+    status: gradeCheck(c, values[c.id], thresholds[c.id] || c),
+    note: notes[c.id] || null,
+  }));
+}
+
+// ---- Mission profiles ----
+// Ordered segments; `fields` lists the per-type settings in URL order (mode is the only string)
+const MISSION_SEGMENTS = [
+  { id:'climb',   name:'Takeoff / climb', fields:['mode','value','minutes'], defaults:{ mode:'tw', value:1.3, minutes:1 } },
+  { id:'hover',   name:'Hover',           fields:['minutes'],                defaults:{ minutes:5 } },
+  { id:'cruise',  name:'Cruise',          fields:['factor','minutes'],       defaults:{ factor:1.15, minutes:10 } },
+  { id:'drop',    name:'Payload drop',    fields:['kg'],                     defaults:{ kg:2 } },
+  { id:'reserve', name:'Landing reserve', fields:['pct'],                    defaults:{ pct:20 } },
+];
+const DEFAULT_MISSION = 'climb~tw~1.3~1,cruise~1.15~10,drop~2,cruise~1.15~10,hover~1,reserve~20';
+function newSegment(type){
+  return { type, ...byId(MISSION_SEGMENTS, type).defaults };
+}
+function encodeMission(segments){
+  return segments.map(s => [s.type, ...byId(MISSION_SEGMENTS, s.type).fields.map(f => s[f])].join('~')).join(',');
+}
+function decodeMission(text){
+  return String(text || '').split(',').map(part => {
+    const [type, ...vals] = part.split('~');
+    const def = byId(MISSION_SEGMENTS, type);
+    if(!def) return null;
+    const seg = newSegment(type);
+    def.fields.forEach((f, i) => {
+      if(vals[i] == null || vals[i] === '') return;
+      if(f === 'mode') seg.mode = vals[i] === 'throttle' ? 'throttle' : 'tw';
+      else if(Number.isFinite(Number(vals[i]))) seg[f] = Number(vals[i]);
+    });
+    return seg;
+  }).filter(Boolean);
+}
+// Per-motor current/lift at a throttle, clamped to the measured range
+function seriesAtThrottle(series, throttle){
+  const pts = series.filter(p => Number.isFinite(p.throttle)).sort((a,b)=>a.throttle-b.throttle);
+  if(!pts.length) return null;
+  const first = pts[0], last = pts[pts.length-1];
+  if(throttle <= first.throttle) return { currentA:first.x, liftKg:first.y, throttle:first.throttle, clamped: throttle < first.throttle };
+  if(throttle >= last.throttle) return { currentA:last.x, liftKg:last.y, throttle:last.throttle, clamped: throttle > last.throttle };
+  for(let i=0;i<pts.length-1;i++){
+    const a = pts[i], b = pts[i+1];
+    if(throttle >= a.throttle && throttle <= b.throttle){
+      const t = (throttle - a.throttle) / ((b.throttle - a.throttle) || 1);
+      return { currentA: a.x + t*(b.x - a.x), liftKg: a.y + t*(b.y - a.y), throttle, clamped:false };
+    }
+  }
+  return null;
+}
+// Operating point for a powered segment at the current mass. Lift beyond the data is run at
+// full measured thrust and flagged, so the timeline stays continuous.
+function segmentOperatingPoint(series, seg, massKg, motorCount, thrustFactor, model){
+  if(seg.type === 'climb' && seg.mode === 'throttle'){
+    const p = seriesAtThrottle(series, seg.value);
+    return p && { ok:true, currentA:p.currentA, throttle:p.throttle, liftKg:p.liftKg, noteLow:p.clamped };
+  }
+  const factor = seg.type === 'climb' ? seg.value : seg.type === 'cruise' ? seg.factor : 1;
+  const liftKg = massKg * factor / (motorCount * thrustFactor);
+  const interp = interpolateCurrentForLift(series, liftKg, model);
+  if(interp.ok) return { ...interp, liftKg };
+  if(interp.reason !== 'exceeds-max') return null;
+  const top = [...series].sort((a,b)=>b.y-a.y)[0];
+  return { ok:false, currentA:top.x, throttle:top.throttle ?? 100, liftKg };
+}
+// Run every segment against one pack. Timeline points are {t (min), a (pack A), ah, rem (% of capacity)};
+// each segment reports the flags the UI highlights.
+function simulateMission(series, segments, { motorCount, thrustFactor, specCells, battery, takeoffKg, batteryMaxA, fitModel }){
+  if(!series || !series.length) return null;
+  const pack = openPack(battery, specCells);
+  if(!(pack.cells > 0) || !(pack.usableAh > 0)) return null;
+  const volts = (specCells || pack.cells) * SPEC_CELL_V;
+  const remaining = ()=> 100 * (1 - pack.ah / pack.capacityAh);
+  const timeline = [{ t:0, a:0, ah:0, rem:100 }];
+  const results = [];
+  let h = 0, mass = takeoffKg, ended = null;
+  for(const seg of segments){
+    const start = h * 60;
+    const flags = [];
+    let op = null;
+    if(ended){
+      flags.push('not-reached');
+    } else if(seg.type === 'drop'){
+      mass = Math.max(0, mass - seg.kg);
+    } else if(seg.type === 'reserve'){
+      if(remaining() < seg.pct) flags.push('reserve');
+    } else {
+      op = segmentOperatingPoint(series, seg, mass, motorCount, thrustFactor, fitModel);
+      if(!op) flags.push('no-data');
+      else {
+        if(!op.ok) flags.push('exceeds-max');
+        let peakA = op.currentA * motorCount;
+        const until = h + seg.minutes / 60;
+        while(!ended && h < until - 1e-9){
+          const d = drawPack(pack, op.currentA * motorCount * volts, Math.min(SIM_STEP_S / 3600, until - h));
+          h += d.hours;
+          peakA = Math.max(peakA, d.current);
+          timeline.push({ t: h * 60, a: d.current, ah: pack.ah, rem: remaining() });
+          if(d.end) ended = d.end;
+        }
+        if(batteryMaxA > 0 && peakA > batteryMaxA) flags.push('over-current');
+        if(ended && h < until - 1e-9) flags.push(ended);
+      }
     }
+    results.push({ seg, start, end: h * 60, massKg: mass, op, flags, rem: remaining() });
+  }
+  return { timeline, segments: results, minutes: h * 60, ah: pack.ah, rem: remaining(), ended };
+}
+
+// ---- Reverse sizing ----
+// Prop diameter in inches: an explicit diameter_in, else parsed from names like
+// "32×10", "24.5\" x 8.1" or T-Motor style "MF3016" (30 in, 1.6 pitch).
+function propDiameterIn(prop){
+  if(Number.isFinite(prop?.diameter_in)) return prop.diameter_in;
+  for(const s of [prop?.name, prop?.id]){
+    const str = String(s || '');
+    const m = str.match(/(\d+(?:\.\d+)?)\s*(?:"|in|inch)?\s*[x×]\s*\d/i);
+    if(m) return Number(m[1]);
+    const t = str.match(/\b(?:MF|FA|NS|CF|G)?(\d{2})(\d{2})\b/i);
+    if(t) return Number(t[1]);
   }
-  // Sort by weight for clean lines
-  out.sort((a,b)=>a.w - b.w);
+  return null;
+}
+// Every motor/prop in the catalog flown at the mission's weight; specFor returns a loaded spec
+function sizeCatalog(catalog, specFor, { takeoffKg, targetMin, maxDiaIn, voltage, estimateVoltage, layout, motorCount, thrustFactor, battery, fitModel, sigma = 1, addPropulsion = false }){
+  const specCells = cellsOf(voltage);
+  const pack = { ...battery, cells: specCells || battery.cells };
+  const out = [];
+  catalog.forEach(m => {
+    const spec = specFor(m.id);
+    const motorG = motorMeta(m, spec).mass_g;
+    (spec?.props || []).forEach(p => {
+      const data = propDataAt(p, voltage, estimateVoltage);
+      const series = buildSeries(densityCorrected(data?.points, sigma));
+      if(!series.length) return;
+      const slotKg = takeoffKg + (addPropulsion ? ((motorG || 0) + (p.mass_g || 0)) * motorCount / 1000 : 0);
+      const liftPerMotor = slotKg / (motorCount * thrustFactor);
+      const hover = interpolateCurrentForLift(series, liftPerMotor, fitModel);
+      const flight = hover.ok ? simulateFlight(hover.currentA, motorCount, specCells, pack) : null;
+      const totals = seriesTotals(series, motorCount, thrustFactor);
+      const diaIn = propDiameterIn(p);
+      const reasons = [];
+      if(!hover.ok) reasons.push('can’t hover');
+      if(flight && flight.minutes < targetMin) reasons.push('short endurance');
+      if(maxDiaIn > 0 && diaIn != null && diaIn > maxDiaIn) reasons.push('prop too large');
+      out.push({
+        key: `${m.id}/${p.id}`, motorId: m.id, propId: p.id,
+        motor: spec.name || m.name, prop: p.name || p.id, diaIn, estFrom: data.estFrom,
+        hoverA: hover.ok ? hover.currentA : null, throttle: hover.ok ? hover.throttle : null, noteLow: hover.ok && hover.noteLow,
+        takeoffKg: slotKg,
+        tw: totals && slotKg > 0 ? totals.maxThrustKg / slotKg : null,
+        endurance: flight ? flight.minutes : null,
+        feasible: !reasons.length, reasons,
+      });
+    });
+  });
   return out;
 }
 
+// ---- Motor metadata & browser ----
+// Optional fields on catalog entries and spec files; a loaded spec's values win over the catalog's
+const MOTOR_META_FIELDS = [
+  { key:'manufacturer',     type:'string', name:'Manufacturer' },
+  { key:'kv',               type:'number', name:'KV' },
+  { key:'mass_g',           type:'number', name:'Mass (g)' },
+  { key:'stator',           type:'string', name:'Stator (e.g. 82×18)' },
+  { key:'max_continuous_a', type:'number', name:'Max continuous (A)' },
+  { key:'price',            type:'number', name:'Price' },
+  { key:'currency',         type:'string', name:'Currency' },
+  { key:'source_url',       type:'url',    name:'Source sheet link' },
+];
+function metadataIssues(obj, where){
+  const issues = [];
+  MOTOR_META_FIELDS.forEach(({ key, type }) => {
+    const v = obj?.[key];
+    if(v == null) return;
+    const bad = type === 'number' ? !(Number.isFinite(v) && v >= 0)
+      : type === 'url' ? !(typeof v === 'string' && /^(https?:)?\/\/|^\.{0,2}\//.test(v))
+      : typeof v !== 'string';
+    if(bad) issues.push({ level:'warn', msg:`${where}: "${key}" should be ${type === 'number' ? 'a non-negative number' : type === 'url' ? 'a link' : 'text'} (got ${JSON.stringify(v)}).` });
+  });
+  return issues;
+}
+function motorMeta(entry, spec){
+  const out = {};
+  MOTOR_META_FIELDS.forEach(({ key }) => {
+    const v = spec?.[key] ?? entry?.[key];
+    if(v != null) out[key] = v;
+  });
+  return out;
+}
+// One row per motor × prop × measured voltage; motors whose spec isn't loaded get a metadata-only row
+function browseCatalog(catalog, specFor){
+  const out = [];
+  catalog.forEach(m => {
+    const spec = specFor(m.id);
+    const meta = motorMeta(m, spec);
+    const base = { motorId: m.id, motor: spec?.name || m.name, source: m.source, ...meta };
+    const rows = (spec?.props || []).flatMap(p => Object.entries(p.data || {}).filter(([, pts]) => pts?.length).map(([v, pts]) => {
+      const series = buildSeries(pts);
+      const volts = (cellsOf(v) || 0) * SPEC_CELL_V;
+      const gpws = perfPoints(series, volts).map(q => q.gpw).filter(Number.isFinite);
+      return {
+        ...base, key: `${m.id}/${p.id}/${v}`, propId: p.id, prop: p.name || p.id, voltage: v, diaIn: propDiameterIn(p),
+        maxThrustKg: series.length ? Math.max(...series.map(q => q.y)) : null,
+        peakA: series.length ? Math.max(...series.map(q => q.x)) : null,
+        bestGpw: gpws.length ? Math.max(...gpws) : null,
+      };
+    }));
+    out.push(...(rows.length ? rows : [{ ...base, key: m.id, pending: !spec }]));
+  });
+  return out;
+}
+
+// ---- Chart & data export ----
+function csvCell(v){
+  if(v == null) return '';
+  const s = typeof v === 'number' ? (Number.isFinite(v) ? String(Number(v.toFixed(4))) : '') : String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+function toCsv(header, rows){
+  return [header, ...rows].map(r => r.map(csvCell).join(',')).join('\n') + '\n';
+}
+// Standalone SVG markup of the recharts surface inside a container, on a white background.
+// The on-page legend is HTML outside the surface, so `legend` ({ label, color } per series) is
+// drawn into a strip above the plot.
+function chartSvgText(container, legend = []){
+  const svg = container?.querySelector('svg.recharts-surface');
+  if(!svg) return null;
+  const clone = svg.cloneNode(true);
+  const { width, height } = svg.getBoundingClientRect();
+  const w = width || Number(svg.getAttribute('width')) || 800, h = height || Number(svg.getAttribute('height')) || 400;
+  const el = (tag, attrs)=>{
+    const n = document.createElementNS('http://www.w3.org/2000/svg', tag);
+    for(const [k, v] of Object.entries(attrs)) n.setAttribute(k, String(v));
+    return n;
+  };
+  const key = el('g', {});
+  let x = 10, y = 18;
+  for(const item of legend){
+    const itemW = 28 + String(item.label).length * 7; // rough width of 12px text
+    if(x > 10 && x + itemW > w - 10){ x = 10; y += 18; }
+    key.append(el('circle', { cx:x + 6, cy:y - 4, r:6, fill:item.color }));
+    const label = el('text', { x:x + 16, y, 'font-size':12, fill:'#374151' });
+    label.textContent = item.label;
+    key.append(label);
+    x += itemW;
+  }
+  const keyH = legend.length ? y + 10 : 0;
+  const plot = el('g', { transform:`translate(0 ${keyH})` });
+  plot.append(...clone.childNodes);
+  clone.append(el('rect', { width:'100%', height:'100%', fill:'#fff' }), key, plot);
+  clone.removeAttribute('style'); // the on-page 100% sizing would collapse a standalone file
+  clone.setAttribute('width', String(w)); clone.setAttribute('height', String(h + keyH));
+  clone.setAttribute('viewBox', `0 0 ${w} ${h + keyH}`);
+  clone.setAttribute('font-family', 'ui-sans-serif, system-ui, sans-serif');
+  return new XMLSerializer().serializeToString(clone);
+}
+function svgDataUrl(svgText){ return 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svgText); }
+function svgToPngBlob(svgText, scale = 2){
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = ()=>{
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width * scale; canvas.height = img.height * scale;
+      const ctx = canvas.getContext('2d');
+      ctx.scale(scale, scale); ctx.drawImage(img, 0, 0);
+      canvas.toBlob(b => b ? resolve(b) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    img.onerror = ()=> reject(new Error('SVG could not be rendered'));
+    img.src = svgDataUrl(svgText);
+  });
+}
+
+// ---- Shareable session state ----
+// A session is the full comparison setup. It round-trips through the URL hash as readable
+// query parameters and is what saved sessions store.
+const SESSION_VERSION = 1;
+const SESSIONS_KEY = 'motor-check:sessions';
+const DEFAULT_SESSION = {
+  catalogUrls: [BUNDLED_CATALOG],
+  entries: [{}, {}],
+  voltage: '12S', estimateVoltage: false,
+  layoutId: 'quad', coaxLossPct: 20,
+  takeoffKg: 10, capacityAh: 20, usablePct: 80,
+  massMode: 'direct', dryKg: 6, payloadKg: 2, densityMode: 'whkg', whPerKg: 160, gPerAh: 250, gPerAhCells: 12,
+  cells: 12, chemistry: 'lipo', irMohm: 3,
+  batteryMaxA: 100, limitMode: 'perMotor', mission: DEFAULT_MISSION, fitModel: 'linear',
+  envCorrect: false, elevationM: 0, tempC: 15, humidityPct: 0, addPropulsion: false,
+  escEffPct: 100, wiringMohm: 0, auxLoad: 0, auxUnit: 'W', escMaxA: 0,
+};
+// Scalar session fields and their URL parameter names
+const SESSION_PARAMS = {
+  voltage:'volt', estimateVoltage:'estv', layoutId:'layout', coaxLossPct:'coax',
+  takeoffKg:'kg', capacityAh:'ah', usablePct:'use', cells:'s', chemistry:'chem', irMohm:'ir',
+  batteryMaxA:'maxa', limitMode:'limit',
+  massMode:'mass', dryKg:'dry', payloadKg:'pay', densityMode:'dens', whPerKg:'whkg', gPerAh:'gah', gPerAhCells:'gahs',
+  mission:'mis', fitModel:'fit',
+  envCorrect:'env', elevationM:'elev', tempC:'temp', humidityPct:'rh', addPropulsion:'propm',
+  escEffPct:'esce', wiringMohm:'wire', auxLoad:'aux', auxUnit:'auxu', escMaxA:'escmax',
+};
+function encodeSession(session){
+  const q = new URLSearchParams();
+  q.set('v', String(SESSION_VERSION));
+  Object.entries(SESSION_PARAMS).forEach(([field, param]) => {
+    const val = session[field];
+    if(val != null) q.set(param, typeof val === 'boolean' ? (val ? '1' : '0') : String(val));
+  });
+  (session.catalogUrls || []).forEach(u => q.append('cat', u));
+  // Entries as motor~prop~color; local:… ids are only meaningful in the browser that saved them
+  (session.entries || []).forEach(e => q.append('e', [e.motorId || '', e.propId || '', (e.color || '').replace('#', '')].join('~')));
+  return q.toString();
+}
+// Returns only the fields present in the hash, typed like DEFAULT_SESSION
+function decodeSession(hash){
+  const q = new URLSearchParams(String(hash || '').replace(/^#/, ''));
+  if(!q.has('v')) return {};
+  const out = {};
+  Object.entries(SESSION_PARAMS).forEach(([field, param]) => {
+    if(!q.has(param)) return;
+    const raw = q.get(param), def = DEFAULT_SESSION[field];
+    if(typeof def === 'number'){ const n = Number(raw); if(Number.isFinite(n)) out[field] = n; }
+    else if(typeof def === 'boolean') out[field] = raw === '1';
+    else out[field] = raw;
+  });
+  if(q.getAll('cat').length) out.catalogUrls = q.getAll('cat');
+  const entries = q.getAll('e').map(s => {
+    const [motorId, propId, color] = s.split('~');
+    return { motorId: motorId || undefined, propId: propId || undefined, color: /^[0-9a-f]{6}$/i.test(color || '') ? `#${color}` : undefined };
+  });
+  if(entries.length) out.entries = entries;
+  return out;
+}
+function entriesFromSession(list){
+  const built = (list || []).reduce((acc, e) => [...acc, newEntry(acc, Object.fromEntries(Object.entries(e || {}).filter(([, v]) => v != null)))], []);
+  return built.length ? built : [newEntry([])];
+}
+function loadSavedSessions(){
+  try{
+    const list = JSON.parse(localStorage.getItem(SESSIONS_KEY) || '[]');
+    return Array.isArray(list) ? list.filter(s => s && s.name && s.session) : [];
+  }catch{ return []; }
+}
+function saveSavedSessions(list){
+  try{ localStorage.setItem(SESSIONS_KEY, JSON.stringify(list)); }catch{ /* storage full or disabled */ }
+}
+function uniqueName(name, list){
+  let n = name, i = 2;
+  while(list.some(s => s.name === n)) n = `${name} (${i++})`;
+  return n;
+}
+
+// ---- Spec file schema & data-quality checks ----
+// Version 1 of the catalog (index.json) and motor spec formats:
+//   catalog: { schemaVersion: 1, catalog: [{ id, name, url }] }  (a bare array is accepted as v1)
+//   spec:    { schemaVersion: 1, id, name, props: [{ id, name, data: { "12S": [{ throttle, current, thrust_kg }] } }] }
+// Files without schemaVersion are read as v1. Issues are { level: 'error' | 'warn', msg }.
+const SCHEMA_VERSION = 1;
+function checkSchemaVersion(data, issues){
+  const v = data?.schemaVersion;
+  if(v == null) return;
+  if(!Number.isInteger(v)) issues.push({ level:'warn', msg:`schemaVersion "${v}" is not an integer; reading as v${SCHEMA_VERSION}.` });
+  else if(v > SCHEMA_VERSION) issues.push({ level:'warn', msg:`schemaVersion ${v} is newer than this app supports (v${SCHEMA_VERSION}); some fields may be ignored.` });
+}
+function validateCatalog(data){
+  const issues = [];
+  const isObj = data && typeof data === 'object' && !Array.isArray(data);
+  if(isObj) checkSchemaVersion(data, issues);
+  const list = Array.isArray(data) ? data : (isObj && Array.isArray(data.catalog) ? data.catalog : null);
+  if(!list) return { list:[], issues:[{ level:'error', msg:'Catalog must be an array or an object with a "catalog" array.' }] };
+  const seen = new Set();
+  list.forEach((m, i) => {
+    const where = `Entry ${i+1}${m?.id ? ` (${m.id})` : ''}`;
+    if(!m || typeof m !== 'object'){ issues.push({ level:'error', msg:`${where} is not an object.` }); return; }
+    if(!m.id) issues.push({ level:'error', msg:`${where} is missing "id".` });
+    if(!m.name) issues.push({ level:'warn', msg:`${where} is missing "name".` });
+    if(!m.url) issues.push({ level:'error', msg:`${where} is missing "url".` });
+    issues.push(...metadataIssues(m, where));
+    if(m.id && seen.has(m.id)) issues.push({ level:'error', msg:`Duplicate motor id "${m.id}".` });
+    seen.add(m.id);
+  });
+  // Unusable entries are dropped; of duplicate ids the first wins
+  const ids = new Set();
+  return { list: list.filter(m => m && typeof m === 'object' && m.id && !ids.has(m.id) && ids.add(m.id)), issues };
+}
+function validateSpec(spec){
+  const issues = [];
+  const err = (msg)=> issues.push({ level:'error', msg });
+  const warn = (msg)=> issues.push({ level:'warn', msg });
+  if(!spec || typeof spec !== 'object' || Array.isArray(spec)){ err('Spec is not a JSON object.'); return issues; }
+  checkSchemaVersion(spec, issues);
+  if(!spec.id) err('Missing "id".');
+  if(!spec.name) warn('Missing "name".');
+  issues.push(...metadataIssues(spec, 'Spec'));
+  if(!Array.isArray(spec.props)){ err('Missing "props" array.'); return issues; }
+  if(!spec.props.length) warn('No props listed.');
+  const propIds = new Set();
+  spec.props.forEach((p, i) => {
+    const pname = p?.name || p?.id || `Prop ${i+1}`;
+    if(!p || typeof p !== 'object'){ err(`Prop ${i+1} is not an object.`); return; }
+    if(!p.id) err(`${pname}: missing "id".`);
+    else if(propIds.has(p.id)) err(`Duplicate prop id "${p.id}".`);
+    propIds.add(p.id);
+    if(!p.name) warn(`${pname}: missing "name".`);
+    if(p.mass_g != null && !(Number.isFinite(p.mass_g) && p.mass_g >= 0)) warn(`${pname}: "mass_g" should be a non-negative number.`);
+    if(!p.data || typeof p.data !== 'object' || !Object.keys(p.data).length){ warn(`${pname}: no data.`); return; }
+    Object.entries(p.data).forEach(([vKey, rows]) => {
+      const where = `${pname} @ ${vKey}`;
+      if(!cellsOf(vKey)) warn(`${where}: voltage key isn't in "<cells>S" form, so it can't be used for estimates or the battery model.`);
+      if(!Array.isArray(rows)){ err(`${where}: data is not an array.`); return; }
+      rows.forEach((r, j) => {
+        ['throttle', 'current', 'thrust_kg'].forEach(f => {
+          if(!Number.isFinite(r?.[f])) err(`${where}, row ${j+1}: ${f} is ${r?.[f] === undefined ? 'missing' : `not a number (${JSON.stringify(r?.[f])})`}.`);
+          else if(r[f] < 0) err(`${where}, row ${j+1}: negative ${f} (${r[f]}).`);
+        });
+        if(Number.isFinite(r?.throttle) && (r.throttle > 100 || (r.throttle > 0 && r.throttle <= 1 && rows.every(q => !(q?.throttle > 1))))) warn(`${where}, row ${j+1}: throttle ${r.throttle} doesn't look like a percentage.`);
+      });
+      dataQualityIssues(rows, where).forEach(i => issues.push(i));
+    });
+  });
+  return issues;
+}
+// Shape checks on one dataset: thrust should rise with throttle, current should rise with thrust,
+// and current should follow a smooth power law of thrust (catches transposed or mistyped digits).
+// Changes within 1% are treated as measurement noise near saturation.
+const NOISE_FRAC = 0.01;
+function dataQualityIssues(rows, where){
+  const issues = [];
+  const pts = rows.filter(r => ['throttle', 'current', 'thrust_kg'].every(f => Number.isFinite(r?.[f])));
+  const byThr = [...pts].sort((a,b)=>a.throttle-b.throttle);
+  for(let i=1;i<byThr.length;i++){
+    const a = byThr[i-1], b = byThr[i];
+    if(a.throttle === b.throttle){ issues.push({ level:'warn', msg:`${where}: duplicate throttle ${b.throttle}%.` }); continue; }
+    if(b.thrust_kg < a.thrust_kg * (1 - NOISE_FRAC)) issues.push({ level:'warn', msg:`${where}: thrust falls from ${a.thrust_kg} kg at ${a.throttle}% to ${b.thrust_kg} kg at ${b.throttle}%.` });
+  }
+  const byThrust = [...pts].sort((a,b)=>a.thrust_kg-b.thrust_kg);
+  for(let i=1;i<byThrust.length;i++){
+    const a = byThrust[i-1], b = byThrust[i];
+    if(b.thrust_kg > a.thrust_kg && b.current < a.current * (1 - NOISE_FRAC)) issues.push({ level:'warn', msg:`${where}: current drops from ${a.current} A to ${b.current} A while thrust rises from ${a.thrust_kg} to ${b.thrust_kg} kg.` });
+  }
+  // Outliers: residuals of a least-squares fit of log(I) on log(T)
+  const logs = pts.filter(p => p.current > 0 && p.thrust_kg > 0).map(p => ({ p, x: Math.log(p.thrust_kg), y: Math.log(p.current) }));
+  if(logs.length >= 5){
+    const n = logs.length;
+    const mx = logs.reduce((s,l)=>s+l.x,0)/n, my = logs.reduce((s,l)=>s+l.y,0)/n;
+    const sxx = logs.reduce((s,l)=>s+(l.x-mx)**2,0);
+    const slope = sxx > 0 ? logs.reduce((s,l)=>s+(l.x-mx)*(l.y-my),0)/sxx : 0;
+    const resid = logs.map(l => l.y - (my + slope*(l.x-mx)));
+    const median = (xs)=>{ const s = [...xs].sort((a,b)=>a-b); return s[Math.floor(s.length/2)]; };
+    const mad = median(resid.map(r => Math.abs(r)));
+    logs.forEach((l, i) => {
+      if(Math.abs(resid[i]) > Math.max(0.25, 4*mad)){
+        issues.push({ level:'warn', msg:`${where}: row at ${l.p.throttle}% looks like an outlier (${l.p.current} A for ${l.p.thrust_kg} kg is ${Math.round((Math.exp(resid[i])-1)*100)}% off the fitted curve).` });
+      }
+    });
+  }
+  return issues;
+}
+
+// ---- CSV/TSV import ----
+// Units are converted to the spec format: throttle in %, current in A, thrust in kg.
+const THRUST_UNITS = { g:0.001, kg:1, lbf:0.45359237, N:1/9.80665 };
+const THROTTLE_UNITS = { pct:'%', frac:'0–1', us:'PWM µs (1000–2000)' };
+const IMPORT_FIELDS = { ignore:'Ignore', throttle:'Throttle', current:'Current (A)', power:'Power (W)', voltage:'Voltage (V)', thrust:'Thrust' };
+// Quoted fields may hold the delimiter ("1,234", "32x10, CF") and "" for a literal quote.
+// ragged lists the 1-based lines whose column count differs from the first line's; they aren't imported.
+function parseDelimited(text){
+  // Keep each line's number in the file before dropping blank ones
+  const lines = String(text || '').split(/\r?\n/).map((l, i) => ({ l, line: i + 1 })).filter(({ l }) => l.trim());
+  if(!lines.length) return { header:null, rows:[], delimiter:',', ragged:[] };
+  const delimiter = ['\t', ';', ','].find(d => lines[0].l.replace(/"[^"]*"/g, '').includes(d)) || ',';
+  const split = (l)=>{
+    const cells = [];
+    let cell = '', quoted = false;
+    for(let i=0;i<l.length;i++){
+      const c = l[i];
+      if(quoted){
+        if(c === '"' && l[i+1] === '"'){ cell += '"'; i++; }
+        else if(c === '"') quoted = false;
+        else cell += c;
+      }
+      else if(c === '"' && !cell.trim()){ cell = ''; quoted = true; }
+      else if(c === delimiter){ cells.push(cell.trim()); cell = ''; }
+      else cell += c;
+    }
+    return [...cells, cell.trim()];
+  };
+  const first = split(lines[0].l);
+  const isHeader = first.some(c => c && !Number.isFinite(toNum(c, delimiter)));
+  const body = (isHeader ? lines.slice(1) : lines).map(({ l, line }) => ({ line, cells: split(l) }));
+  return {
+    header: isHeader ? first : null, delimiter,
+    rows: body.filter(r => r.cells.length === first.length).map(r => r.cells),
+    ragged: body.filter(r => r.cells.length !== first.length).map(r => r.line),
+  };
+}
+// Decimal commas are only possible when the comma isn't the delimiter; with a comma delimiter a
+// comma can only survive inside a quoted field, as a thousands separator
+function toNum(cell, delimiter = ','){
+  const s = delimiter === ',' ? String(cell).replace(/,/g, '') : String(cell).replace(',', '.');
+  return parseFloat(s);
+}
+function guessImportField(header){
+  const h = String(header || '').toLowerCase();
+  if(/thrust|lift|pull|force/.test(h)) return 'thrust';
+  if(/throttle|thr|pwm|signal|esc/.test(h)) return 'throttle';
+  if(/current|amp|\(a\)/.test(h)) return 'current';
+  if(/power|watt|\(w\)/.test(h)) return 'power';
+  if(/volt|\(v\)/.test(h)) return 'voltage';
+  return 'ignore';
+}
+function guessImportUnits(header){
+  const hs = (header || []).map(h => String(h).toLowerCase());
+  const thrustH = hs.find(h => guessImportField(h) === 'thrust') || '';
+  const throttleH = hs.find(h => guessImportField(h) === 'throttle') || '';
+  const thrust = /lbf/.test(thrustH) ? 'lbf' : /\(n\)|\bn\b/.test(thrustH) ? 'N' : /kg/.test(thrustH) ? 'kg' : /\bg\b|\(g\)|gram/.test(thrustH) ? 'g' : 'kg';
+  const throttle = /µs|\bus\b|pwm/.test(throttleH) ? 'us' : 'pct';
+  return { thrust, throttle };
+}
+// mapping: field per column; units: { thrust, throttle, voltage } with voltage used for W → A
+// when no voltage column is mapped.
+function convertImportedRows(parsed, mapping, units){
+  const col = (field)=> mapping.indexOf(field);
+  const [iThr, iCur, iPow, iVolt, iThrust] = ['throttle', 'current', 'power', 'voltage', 'thrust'].map(col);
+  if(iThr < 0 || iThrust < 0 || (iCur < 0 && iPow < 0)) return { points:[], error:'Map throttle, thrust and current or power columns.' };
+  const num = (row, i)=> toNum(row[i], parsed.delimiter);
+  const points = parsed.rows.map(row => {
+    const raw = num(row, iThr);
+    const throttle = units.throttle === 'us' ? (raw - 1000) / 10 : units.throttle === 'frac' ? raw * 100 : raw;
+    const volts = iVolt >= 0 ? num(row, iVolt) : units.voltage;
+    const current = iCur >= 0 ? num(row, iCur) : num(row, iPow) / volts;
+    const thrust_kg = num(row, iThrust) * (THRUST_UNITS[units.thrust] ?? 1);
+    return { throttle: Number(throttle.toFixed(2)), current: Number(current.toFixed(3)), thrust_kg: Number(thrust_kg.toFixed(4)) };
+  }).filter(p => Number.isFinite(p.throttle) && Number.isFinite(p.current) && Number.isFinite(p.thrust_kg));
+  points.sort((a,b)=> a.throttle - b.throttle);
+  return { points, error: points.length ? null : 'No numeric rows found.' };
+}
+
 // ================= Small UI components =================
-function MotorPropPicker({ catalog, motorId, setMotorId, motorSpec, prop, setProp, voltage }){
+function MotorPropPicker({ catalog, motorId, setMotorId, motorSpec, prop, setProp, voltage, estimateVoltage }){
   const hasSpec = !!motorSpec;
-  const props = (motorSpec?.props || []).filter(p => p.data && p.data[voltage] && p.data[voltage].length);
-  useEffect(()=>{ if(prop && props.every(p => p.id !== prop)) setProp(undefined); }, [voltage, motorId]);
+  const props = (motorSpec?.props || []).filter(p => propDataAt(p, voltage, estimateVoltage));
+  const sources = [...new Set((catalog||[]).map(m => m.source))];
+  const option = (m)=> <option key={m.id} value={m.id}>{m.name}</option>;
+  // Only drop the prop once the spec is loaded, so a prop restored from a link survives the fetch
+  useEffect(()=>{ if(motorSpec && prop && props.every(p => p.id !== prop)) setProp(undefined); }, [voltage, motorId, estimateVoltage, motorSpec]);
   return (
     <div className="space-y-3">
       <div>
         <div className="text-sm text-gray-600 mb-1">Motor</div>
         <select className="border rounded px-2 py-1 w-full" value={motorId || ''} onChange={e=>setMotorId(e.target.value || undefined)}>
           <option value="">Select a motor…</option>
-          {(catalog||[]).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          {sources.length > 1
+            ? sources.map(s => <optgroup key={s} label={s}>{catalog.filter(m => m.source === s).map(option)}</optgroup>)
+            : (catalog||[]).map(option)}
         </select>
       </div>
       <div>
         <div className="text-sm text-gray-600 mb-1">Prop (filtered by voltage {voltage})</div>
         <select className="border rounded px-2 py-1 w-full" value={prop || ''} onChange={e=>setProp(e.target.value || undefined)} disabled={!hasSpec}>
           <option value="">{hasSpec ? 'Select a prop…' : 'Select a motor first'}</option>
-          {props.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          {props.map(p => <option key={p.id} value={p.id}>{p.name}{p.data?.[voltage]?.length ? '' : ' (est.)'}</option>)}
         </select>
       </div>
     </div>
   );
 }
-function LegendInline({ specA, propA, specB, propB }){
+function LegendInline({ rows }){
   return (
-    <div className="text-sm text-gray-700">
-      <span className="inline-flex items-center gap-2 mr-4"><span className="inline-block w-3 h-3 rounded-full bg-blue-600" />{specA ? specA.name : 'Motor A'}{propA ? ` • ${propA.name}` : ''}</span>
-      <span className="inline-flex items-center gap-2"><span className="inline-block w-3 h-3 rounded-full bg-green-600" />{specB ? specB.name : 'Motor B'}{propB ? ` • ${propB.name}` : ''}</span>
+    <div className="text-sm text-gray-700 flex flex-wrap justify-end gap-x-4 gap-y-1">
+      {rows.map(r => (
+        <span key={r.key} className="inline-flex items-center gap-2"><span className="inline-block w-3 h-3 rounded-full" style={{ background:r.color }} />{r.label}</span>
+      ))}
     </div>
   );
 }
-function HoverTip({ active, payload, propAName, propBName, mode }){
+function HoverTip({ active, payload, rows, mode }){
   if (!active || !payload || !payload.length) return null;
   const row = payload.reduce((acc, p) => ({ ...acc, ...p.payload }), {});
-  const a = payload.find(p => p.dataKey === 'A');
-  const b = payload.find(p => p.dataKey === 'B');
   const x = row.x;
   const xLabel = mode === 'total' ? 'Total current' : 'Current per motor';
   return (
     <div className="bg-white/95 border rounded-md p-2 text-xs shadow">
       <div className="font-semibold">{xLabel}: {Number(x).toFixed(2)} A</div>
-      {a && a.value != null && (<div>A{propAName ? ` • ${propAName}` : ''}: {Number(a.value).toFixed(3)} kg</div>)}
-      {b && b.value != null && (<div>B{propBName ? ` • ${propBName}` : ''}: {Number(b.value).toFixed(3)} kg</div>)}
-      {row.tA != null && <div>Throttle A: {row.tA}%</div>}
-      {row.tB != null && <div>Throttle B: {row.tB}%</div>}
+      {rows.map(r => {
+        const p = payload.find(p => p.dataKey === `y${r.key}` && p.value != null) || payload.find(p => p.dataKey === `p${r.key}` && p.value != null);
+        if(!p) return null;
+        return <div key={r.key} style={{ color:r.color }}>{r.label}: {Number(p.value).toFixed(3)} kg{p.dataKey[0] === 'p' ? ' (measured)' : ''}{row[`t${r.key}`] != null ? ` • throttle ${row[`t${r.key}`]}%` : ''}</div>;
+      })}
     </div>
   );
 }
-function HoverCard({ title, hover, timeMin, limitMode }){
+const FLIGHT_END_NOTES = { cutoff:'voltage cutoff', sag:'pack can’t hold the load', 'time-cap':'capped' };
+function HoverCard({ title, hover, flight, tw, gpw, seaLevel, slot, limitMode, motorCount, estFrom, loadError }){
+  const sea = (text)=> seaLevel && <span className="text-gray-500 text-xs"> (sea level {text})</span>;
+  const scale = limitMode==='total' ? motorCount : 1;
+  const seaHover = seaLevel?.hover?.ok ? seaLevel.hover : null;
   return (
     <div className="border rounded-xl p-3">
       <div className="font-semibold mb-1">{title}</div>
+      {estFrom && hover?.ok && <div className="text-xs text-amber-700 mb-1">Estimated from {estFrom.join(' & ')} data.</div>}
+      {slot && (
+        <div className="text-sm">Takeoff weight: <b>{slot.takeoffKg.toFixed(2)} kg</b> <span className="text-gray-500 text-xs">(incl. {slot.propulsionKg.toFixed(2)} kg motors & props)</span>
+          {slot.missingMass.length > 0 && <div className="text-xs text-amber-700">No {slot.missingMass.join(' or ')} mass in the spec; counted as 0.</div>}
+        </div>
+      )}
       {hover?.ok ? (
         <div className="text-sm">
-          <div>{limitMode==='total'?'Total hover current':'Hover current per motor'}: <b>{hover.currentA.toFixed(2)} A{hover.noteLow ? '*' : ''}</b></div>
-          <div>Estimated throttle: <b>{hover.throttle.toFixed(1)}%{hover.noteLow ? '*' : ''}</b></div>
-          {limitMode==='perMotor' && <div>Total current (4 motors): <b>{(hover.currentA * 4).toFixed(1)} A{hover.noteLow ? '*' : ''}</b></div>}
-          {Number.isFinite(timeMin) ? (
-            <div>Estimated flight time: <b>{Number(timeMin).toFixed(1)} min{hover.noteLow ? '*' : ''}</b></div>
+          <div>{limitMode==='total'?'Total hover current':'Hover current per motor'}: <b>{(hover.currentA * scale).toFixed(2)} A{hover.noteLow ? '*' : ''}</b>{sea(seaHover ? `${(seaHover.currentA * scale).toFixed(2)} A` : '—')}</div>
+          <div>Estimated throttle: <b>{hover.throttle.toFixed(1)}%{hover.noteLow ? '*' : ''}</b>{sea(seaHover ? `${seaHover.throttle.toFixed(1)}%` : '—')}</div>
+          {tw != null && <div>Thrust/weight: <b>{tw.toFixed(2)}</b>{sea(seaLevel?.tw != null ? seaLevel.tw.toFixed(2) : '—')}</div>}
+          {gpw != null && <div>System efficiency: <b>{gpw.toFixed(2)} g/W{hover.noteLow ? '*' : ''}</b>{sea(seaLevel?.gpw != null ? `${seaLevel.gpw.toFixed(2)} g/W` : '—')}</div>}
+          {limitMode==='perMotor' && <div>Total current ({motorCount} motors): <b>{(hover.currentA * motorCount).toFixed(1)} A{hover.noteLow ? '*' : ''}</b></div>}
+          {flight ? (
+            <>
+              <div>Estimated flight time: <b>{flight.minutes.toFixed(1)} min{hover.noteLow ? '*' : ''}</b>{FLIGHT_END_NOTES[flight.end] ? <span className="text-gray-500"> ({FLIGHT_END_NOTES[flight.end]})</span> : null}{sea(seaLevel?.flight ? `${seaLevel.flight.minutes.toFixed(1)} min` : '—')}</div>
+              <div>Energy used: <b>{flight.wh.toFixed(0)} Wh</b> • avg battery current <b>{flight.avgA.toFixed(1)} A</b></div>
+            </>
           ) : (<div className="text-gray-500">Add battery info to see flight time.</div>)}
         </div>
       ) : (
-        <div className="text-sm text-red-600">{hover?.reason === 'exceeds-max' ? 'Required lift exceeds the max in the spec sheet.' : 'No data for this selection.'}</div>
+        <div className="text-sm text-red-600">
+          {loadError ? `Motor spec failed to load: ${loadError}` : hover?.reason === 'exceeds-max' ? 'Required lift exceeds the max in the spec sheet.' : 'No data for this selection.'}
+          {seaHover && <span className="text-gray-500"> At sea level it would hover at {(seaHover.currentA * scale).toFixed(2)} A, {seaHover.throttle.toFixed(1)}%.</span>}
+        </div>
       )}
     </div>
   );
 }
 
+// Named sessions saved in this browser, plus link sharing and JSON import/export
+function SessionsPanel({ session, onLoad }){
+  const [saved, setSaved] = useState(loadSavedSessions);
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState(null); // { name, value }
+  const [message, setMessage] = useState(null);
+  useEffect(()=>{ saveSavedSessions(saved); }, [saved]);
+
+  const save = ()=>{
+    const n = name.trim() || `Session ${new Date().toLocaleString()}`;
+    setSaved(list => [...list.filter(s => s.name !== n), { name:n, savedAt:new Date().toISOString(), session }]);
+    setName('');
+    setMessage({ ok:`Saved "${n}".` });
+  };
+  const rename = ()=>{
+    const to = renaming.value.trim();
+    if(!to || to === renaming.name){ setRenaming(null); return; }
+    if(saved.some(s => s.name === to)){ setMessage({ error:`"${to}" already exists.` }); return; }
+    setSaved(list => list.map(s => s.name === renaming.name ? { ...s, name:to } : s));
+    setRenaming(null);
+  };
+  const copyLink = async ()=>{
+    try{ await navigator.clipboard.writeText(window.location.href); setMessage({ ok:'Link copied.' }); }
+    catch{ setMessage({ error:'Clipboard unavailable; copy the address bar instead.' }); }
+  };
+  const importFile = async (file)=>{
+    try{
+      const data = JSON.parse(await file.text());
+      const incoming = (Array.isArray(data) ? data : [data]).filter(s => s && typeof s.session === 'object');
+      if(!incoming.length) throw new Error('no sessions found');
+      setSaved(list => incoming.reduce((acc, s) => [...acc, { ...s, name: uniqueName(String(s.name || 'Imported'), acc) }], list));
+      setMessage({ ok:`Imported ${incoming.length} session${incoming.length > 1 ? 's' : ''}.` });
+    }catch(e){ setMessage({ error:`Import failed: ${e?.message || e}` }); }
+  };
+
+  return (
+    <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-lg font-semibold flex-1">Sessions</h2>
+        <button className="px-3 py-1 rounded bg-gray-200" onClick={copyLink}>Copy link</button>
+        <button className="px-3 py-1 rounded bg-gray-200 disabled:opacity-50" disabled={!saved.length} onClick={()=>downloadText('motor-check-sessions.json', JSON.stringify(saved, null, 2) + '\n')}>Export all</button>
+        <label className="px-3 py-1 rounded bg-gray-200 cursor-pointer">Import
+          <input type="file" accept="application/json,.json" className="hidden" onChange={e=>{ const f = e.target.files?.[0]; if(f) importFile(f); e.target.value = ''; }} />
+        </label>
+      </div>
+      <div className="flex gap-2">
+        <input className="flex-1 border rounded px-2 py-1" placeholder="Session name" value={name} onChange={e=>setName(e.target.value)} onKeyDown={e=>{ if(e.key === 'Enter') save(); }} />
+        <button className="px-3 py-1 rounded bg-gray-800 text-white" onClick={save}>Save current</button>
+      </div>
+      {message && <p className={message.error ? 'text-red-600' : 'text-green-700'}>{message.error || message.ok}</p>}
+      <ul className="divide-y">
+        {saved.map(s => (
+          <li key={s.name} className="py-1 flex items-center gap-2">
+            {renaming?.name === s.name ? (
+              <input autoFocus className="flex-1 border rounded px-2 py-0.5" value={renaming.value} onChange={e=>setRenaming({ ...renaming, value:e.target.value })} onBlur={rename} onKeyDown={e=>{ if(e.key === 'Enter') rename(); if(e.key === 'Escape') setRenaming(null); }} />
+            ) : (
+              <span className="flex-1">{s.name} <span className="text-xs text-gray-500">{s.savedAt ? new Date(s.savedAt).toLocaleDateString() : ''} • {(s.session.entries || []).filter(e => e.motorId).length} motor(s)</span></span>
+            )}
+            <button className="px-2 py-0.5 rounded bg-gray-800 text-white text-xs" onClick={()=>onLoad(s.session)}>Load</button>
+            <button className="px-2 py-0.5 rounded bg-gray-200 text-xs" onClick={()=>setRenaming({ name:s.name, value:s.name })}>Rename</button>
+            <button className="px-2 py-0.5 rounded bg-gray-200 text-xs" onClick={()=>downloadText(`${slugify(s.name) || 'session'}.json`, JSON.stringify(s, null, 2) + '\n')}>Export</button>
+            <button className="px-2 py-0.5 rounded bg-gray-200 text-xs" onClick={()=>setSaved(list => list.filter(x => x.name !== s.name))}>Delete</button>
+          </li>
+        ))}
+        {!saved.length && <li className="py-1 text-gray-500">No saved sessions yet.</li>}
+      </ul>
+      <p className="text-xs text-gray-500">The page address always encodes the current setup, so a copied link reopens this exact comparison. Local motors only resolve in the browser that stores them.</p>
+    </div>
+  );
+}
+
+// Efficiency / power / throttle chart with each entry's hover operating point marked
+function PerformanceChart({ rows, hovers, volts }){
+  const [viewId, setViewId] = useState('gpw');
+  const view = byId(PERF_VIEWS, viewId);
+  const data = useMemo(()=> rows
+    .flatMap(r => perfPoints(r.series, volts)
+      .filter(p => Number.isFinite(p[view.x]) && Number.isFinite(p[view.y]))
+      .map(p => ({ x:p[view.x], [`v${r.key}`]:p[view.y] })))
+    .sort((a,b)=>a.x-b.x), [rows, volts, view]);
+  const ops = rows.map((r, i) => {
+    const h = hovers[i]?.hover;
+    return h?.ok ? { r, noteLow:h.noteLow, ...perfPoint(hovers[i].liftKg, h.currentA, h.throttle, volts) } : null;
+  }).filter(Boolean);
+  const lifts = [...new Set(ops.map(o => Number(o.thrust.toFixed(4))))];
+  const best = [...ops].filter(o => Number.isFinite(o.gpw)).sort((a,b)=>b.gpw-a.gpw);
+  return (
+    <div className="p-4 bg-white rounded-2xl shadow-sm">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h2 className="text-xl font-semibold">Efficiency & Power</h2>
+        <div className="flex gap-1 text-sm">
+          {PERF_VIEWS.map(v => (
+            <button key={v.id} className={`px-2 py-1 rounded ${v.id === viewId ? 'bg-gray-800 text-white' : 'bg-gray-100'}`} onClick={()=>setViewId(v.id)}>{v.name}</button>
+          ))}
+        </div>
+      </div>
+      <div className="h-[420px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" dataKey="x" unit={view.xUnit} domain={[0, 'auto']} label={{ value: view.xLabel, position: 'insideBottom', offset: -5 }} />
+            <YAxis type="number" unit={view.yUnit} domain={[0, 'auto']} label={{ value: view.yLabel, angle: -90, position: 'insideLeft' }} />
+            <Tooltip formatter={(value, name)=>[Number(value).toFixed(view.y === 'thrust' ? 3 : 1) + view.yUnit, name]} labelFormatter={(label)=>`${view.xLabel}: ${Number(label).toFixed(view.x === 'throttle' ? 1 : 3)}`} />
+            {view.x === 'thrust' && (lifts.length === 1
+              ? <ReferenceLine x={lifts[0]} stroke="#334155" strokeDasharray="4 4" label={{ value: `Hover (${lifts[0].toFixed(2)} kg)`, position: 'top' }} />
+              : ops.map(o => <ReferenceLine key={`hover-${o.r.key}`} x={o.thrust} stroke={o.r.color} strokeDasharray="4 4" />))}
+            {rows.map(r => (
+              <Line key={r.key} connectNulls type="monotone" dataKey={`v${r.key}`} name={r.label} dot={false} strokeWidth={2} stroke={r.estFrom ? '#f59e0b' : r.color} strokeDasharray={r.estFrom ? '6 3' : undefined} />
+            ))}
+            {ops.map(o => (
+              <ReferenceDot key={o.r.key} x={o[view.x]} y={o[view.y]} r={5} ifOverflow="extendDomain" fill={o.noteLow ? '#fff' : o.r.color} stroke={o.r.color} strokeWidth={2} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {best.length > 0 && (
+        <table className="mt-3 text-sm w-full">
+          <thead><tr className="text-left text-gray-600"><th>At hover{lifts.length === 1 ? ` (${lifts[0].toFixed(2)} kg/motor)` : ''}</th>{lifts.length > 1 && <th>Lift / motor</th>}<th>Efficiency</th><th>Power</th><th>Throttle</th></tr></thead>
+          <tbody>
+            {best.map((o, i) => (
+              <tr key={o.r.key} className={i === 0 && best.length > 1 ? 'font-semibold' : ''}>
+                <td><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ background:o.r.color }} />{o.r.label}</td>
+                {lifts.length > 1 && <td>{o.thrust.toFixed(2)} kg</td>}
+                <td>{o.gpw.toFixed(2)} g/W{o.noteLow ? '*' : ''}</td>
+                <td>{o.power.toFixed(0)} W</td>
+                <td>{o.throttle.toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="mt-2 text-xs text-gray-500">Power = spec current × {volts.toFixed(1)} V (nominal for the selected voltage). Dots mark the hover operating point; hollow dots are extrapolated below the spec data.</p>
+    </div>
+  );
+}
+
+// Searchable, sortable motor catalog with the optional metadata from each spec
+const BROWSER_COLUMNS = [
+  { key:'motor', name:'Motor' }, { key:'manufacturer', name:'Make' }, { key:'kv', name:'KV' },
+  { key:'mass_g', name:'Mass (g)' }, { key:'stator', name:'Stator' }, { key:'max_continuous_a', name:'Max cont. A' },
+  { key:'price', name:'Price' }, { key:'prop', name:'Prop' }, { key:'diaIn', name:'Dia (in)' }, { key:'voltage', name:'Volt' },
+  { key:'maxThrustKg', name:'Max thrust' }, { key:'peakA', name:'Peak A' }, { key:'bestGpw', name:'Best g/W' },
+];
+function MotorBrowser({ catalog, specFor, loadAll, loaded, onPick }){
+  const [query, setQuery] = useState('');
+  const [makes, setMakes] = useState([]);   // empty = all
+  const [volts, setVolts] = useState([]);   // empty = all
+  const [kvMin, setKvMin] = useState(0);
+  const [kvMax, setKvMax] = useState(0);
+  const [diaMin, setDiaMin] = useState(0);
+  const [diaMax, setDiaMax] = useState(0);
+  const [sort, setSort] = useState({ key:'bestGpw', dir:-1 });
+  useEffect(()=>{ loadAll(); }, [loadAll]);
+
+  const rows = useMemo(()=> browseCatalog(catalog, specFor), [catalog, specFor]);
+  const allMakes = useMemo(()=> [...new Set(rows.map(r => r.manufacturer).filter(Boolean))].sort(), [rows]);
+  const allVolts = useMemo(()=> [...new Set(rows.map(r => r.voltage).filter(Boolean))].sort((a,b)=>(cellsOf(a) ?? Infinity) - (cellsOf(b) ?? Infinity)), [rows]);
+  const shown = useMemo(()=>{
+    const q = query.trim().toLowerCase();
+    const inRange = (v, lo, hi)=> (!lo || (v != null && v >= lo)) && (!hi || (v != null && v <= hi));
+    return rows
+      .filter(r => !q || [r.motor, r.manufacturer, r.prop, r.stator, r.motorId].some(s => String(s || '').toLowerCase().includes(q)))
+      .filter(r => !makes.length || makes.includes(r.manufacturer))
+      .filter(r => !volts.length || volts.includes(r.voltage))
+      .filter(r => inRange(r.kv, kvMin, kvMax) && inRange(r.diaIn, diaMin, diaMax))
+      .sort((a,b)=>{
+        const x = a[sort.key], y = b[sort.key];
+        if(x == null || y == null) return (x == null) - (y == null); // blanks last
+        return (typeof x === 'string' ? x.localeCompare(y) : x - y) * sort.dir;
+      });
+  }, [rows, query, makes, volts, kvMin, kvMax, diaMin, diaMax, sort]);
+  const toggleSort = (key)=> setSort(s => ({ key, dir: s.key === key ? -s.dir : (['maxThrustKg', 'bestGpw'].includes(key) ? -1 : 1) }));
+  const toggle = (list, set, v)=> set(list.includes(v) ? list.filter(x => x !== v) : [...list, v]);
+  const num = (v, d, unit = '')=> v == null ? '—' : `${v.toFixed(d)}${unit}`;
+  const input = "border rounded px-2 py-1 w-20";
+
+  return (
+    <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <h2 className="text-xl font-semibold flex-1">Motor Browser</h2>
+        <span className="text-gray-500">{loaded.done < loaded.total ? `Loading specs ${loaded.done}/${loaded.total}…` : `${shown.length} of ${rows.length} rows`}</span>
+      </div>
+      <div className="flex flex-wrap items-end gap-4">
+        <label>Search<input className="mt-1 border rounded px-2 py-1 w-56 block" placeholder="motor, make, prop, stator" value={query} onChange={e=>setQuery(e.target.value)} /></label>
+        <label>KV<span className="flex items-center gap-1 mt-1">
+          <input type="number" className={input} placeholder="min" value={kvMin || ''} onChange={e=>setKvMin(Number(e.target.value)||0)} />–
+          <input type="number" className={input} placeholder="max" value={kvMax || ''} onChange={e=>setKvMax(Number(e.target.value)||0)} />
+        </span></label>
+        <label>Prop diameter (in)<span className="flex items-center gap-1 mt-1">
+          <input type="number" step="0.5" className={input} placeholder="min" value={diaMin || ''} onChange={e=>setDiaMin(Number(e.target.value)||0)} />–
+          <input type="number" step="0.5" className={input} placeholder="max" value={diaMax || ''} onChange={e=>setDiaMax(Number(e.target.value)||0)} />
+        </span></label>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <div className="flex flex-wrap items-center gap-2"><span className="text-gray-600">Make:</span>
+          {allMakes.map(m => <label key={m} className="inline-flex items-center gap-1"><input type="checkbox" checked={makes.includes(m)} onChange={()=>toggle(makes, setMakes, m)} /> {m}</label>)}
+        </div>
+        <div className="flex flex-wrap items-center gap-2"><span className="text-gray-600">Voltage:</span>
+          {allVolts.map(v => <label key={v} className="inline-flex items-center gap-1"><input type="checkbox" checked={volts.includes(v)} onChange={()=>toggle(volts, setVolts, v)} /> {v}</label>)}
+        </div>
+      </div>
+      <div className="max-h-[480px] overflow-auto">
+        <table className="w-full">
+          <thead className="sticky top-0 bg-white">
+            <tr className="text-left border-b">
+              {BROWSER_COLUMNS.map(c => (
+                <th key={c.key} className="py-1 pr-2 cursor-pointer select-none whitespace-nowrap" onClick={()=>toggleSort(c.key)}>{c.name}{sort.key === c.key ? (sort.dir > 0 ? ' ▲' : ' ▼') : ''}</th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(r => (
+              <tr key={r.key} className="border-b">
+                <td className="py-1 pr-2">
+                  {r.source_url ? <a className="text-blue-700 hover:underline" href={r.source_url} target="_blank" rel="noreferrer">{r.motor}</a> : r.motor}
+                  {r.source && r.source !== 'Bundled' && <span className="ml-1 text-xs text-gray-500">({r.source})</span>}
+                </td>
+                <td className="pr-2">{r.manufacturer || '—'}</td>
+                <td className="pr-2">{r.kv ?? '—'}</td>
+                <td className="pr-2">{r.mass_g ?? '—'}</td>
+                <td className="pr-2">{r.stator || '—'}</td>
+                <td className="pr-2">{r.max_continuous_a ?? '—'}</td>
+                <td className="pr-2">{r.price != null ? `${r.price}${r.currency ? ` ${r.currency}` : ''}` : '—'}</td>
+                {r.propId ? (
+                  <>
+                    <td className="pr-2">{r.prop}</td>
+                    <td className="pr-2">{r.diaIn ?? '?'}</td>
+                    <td className="pr-2">{r.voltage}</td>
+                    <td className="pr-2">{num(r.maxThrustKg, 2, ' kg')}</td>
+                    <td className="pr-2">{num(r.peakA, 1, ' A')}</td>
+                    <td className="pr-2">{num(r.bestGpw, 2)}</td>
+                    <td><button className="px-2 py-0.5 rounded bg-gray-800 text-white text-xs" onClick={()=>onPick(r, r.voltage)}>Compare</button></td>
+                  </>
+                ) : (
+                  <td colSpan={7} className="text-gray-400">{r.pending ? 'spec loading…' : 'no prop data'}</td>
+                )}
+              </tr>
+            ))}
+            {!shown.length && <tr><td colSpan={BROWSER_COLUMNS.length + 1} className="py-2 text-gray-500">No motors match.</td></tr>}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">Figures are per motor from the published data at each voltage; best g/W uses {SPEC_CELL_V} V per cell. Metadata comes from the catalog entry or the spec file when it has one. Click a motor name to open its source sheet.</p>
+    </div>
+  );
+}
+
+// Mission-first sizing: rank every catalog motor/prop for a payload and endurance target
+const SIZING_COLUMNS = [
+  { key:'motor', name:'Motor' }, { key:'prop', name:'Prop' }, { key:'diaIn', name:'Dia (in)' },
+  { key:'hoverA', name:'Hover A/motor' }, { key:'throttle', name:'Throttle' }, { key:'tw', name:'T/W' },
+  { key:'endurance', name:'Endurance' },
+];
+function SizingPanel({ catalog, specFor, loadAll, loaded, voltages, defaultVoltage, estimateVoltage, layout, motorCount, thrustFactor, battery, fitModel, sigma, addPropulsion, onPick }){
+  const [payloadKg, setPayloadKg] = useState(2);
+  const [dryKg, setDryKg] = useState(8);
+  const [targetMin, setTargetMin] = useState(20);
+  const [maxDiaIn, setMaxDiaIn] = useState(0);
+  const [voltage, setVoltage] = useState(defaultVoltage);
+  const [feasibleOnly, setFeasibleOnly] = useState(true);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState({ key:'endurance', dir:-1 });
+  useEffect(()=>{ loadAll(); }, [loadAll]);
+
+  const takeoffKg = dryKg + payloadKg;
+  const results = useMemo(()=> sizeCatalog(catalog, specFor, { takeoffKg, targetMin, maxDiaIn, voltage, estimateVoltage, layout, motorCount, thrustFactor, battery, fitModel, sigma, addPropulsion }),
+    [catalog, specFor, takeoffKg, targetMin, maxDiaIn, voltage, estimateVoltage, layout, motorCount, thrustFactor, battery, fitModel, sigma, addPropulsion]);
+  const shown = useMemo(()=>{
+    const q = query.trim().toLowerCase();
+    return results
+      .filter(r => !feasibleOnly || r.feasible)
+      .filter(r => !q || `${r.motor} ${r.prop}`.toLowerCase().includes(q))
+      .sort((a,b)=>{
+        const x = a[sort.key], y = b[sort.key];
+        if(x == null || y == null) return (x == null) - (y == null); // blanks last
+        return (typeof x === 'string' ? x.localeCompare(y) : x - y) * sort.dir;
+      });
+  }, [results, feasibleOnly, query, sort]);
+  const toggleSort = (key)=> setSort(s => ({ key, dir: s.key === key ? -s.dir : (key === 'endurance' || key === 'tw' ? -1 : 1) }));
+  const num = (v, d, unit = '')=> v == null ? '—' : `${v.toFixed(d)}${unit}`;
+  const input = "mt-1 border rounded px-2 py-1 w-full";
+
+  return (
+    <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <h2 className="text-xl font-semibold flex-1">Sizing</h2>
+        <span className="text-gray-500">{loaded.done < loaded.total ? `Loading specs ${loaded.done}/${loaded.total}…` : `${results.length} motor/prop combinations at ${voltage}`}</span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <label>Payload (kg)<input type="number" step="0.1" className={input} value={payloadKg} onChange={e=>setPayloadKg(Number(e.target.value)||0)} /></label>
+        <label>Aircraft w/o payload (kg)<input type="number" step="0.1" className={input} value={dryKg} onChange={e=>setDryKg(Number(e.target.value)||0)} /></label>
+        <label>Target endurance (min)<input type="number" step="1" className={input} value={targetMin} onChange={e=>setTargetMin(Number(e.target.value)||0)} /></label>
+        <label>Max prop diameter (in)<input type="number" step="0.5" className={input} placeholder="no limit" value={maxDiaIn || ''} onChange={e=>setMaxDiaIn(Number(e.target.value)||0)} /></label>
+        <label>Pack voltage
+          <select className={input} value={voltage} onChange={e=>setVoltage(e.target.value)}>
+            {[...new Set([...voltages, voltage])].map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </label>
+        <label>Search<input className={input} placeholder="motor or prop" value={query} onChange={e=>setQuery(e.target.value)} /></label>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-gray-600">
+        <span>Takeoff weight <b>{takeoffKg.toFixed(2)} kg</b>{addPropulsion ? ' + motors & props' : ''} • {layout.name} • {battery.capacityAh} Ah × {battery.usablePct}% {byId(CHEMISTRIES, battery.chemistry)?.name}</span>
+        <label className="inline-flex items-center gap-2"><input type="checkbox" checked={feasibleOnly} onChange={e=>setFeasibleOnly(e.target.checked)} /> Feasible only</label>
+      </div>
+      <p className="text-xs text-gray-500">Only motor/prop pairs are ranked: every candidate flies the pack set under Battery, so change it there to compare packs.</p>
+      <div className="max-h-[420px] overflow-auto">
+        <table className="w-full">
+          <thead className="sticky top-0 bg-white">
+            <tr className="text-left border-b">
+              {SIZING_COLUMNS.map(c => (
+                <th key={c.key} className="py-1 pr-2 cursor-pointer select-none" onClick={()=>toggleSort(c.key)}>{c.name}{sort.key === c.key ? (sort.dir > 0 ? ' ▲' : ' ▼') : ''}</th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(r => (
+              <tr key={r.key} className={`border-b ${r.feasible ? '' : 'text-gray-400'}`}>
+                <td className="py-1 pr-2">{r.motor}</td>
+                <td className="pr-2">{r.prop}{r.estFrom ? <span className="text-amber-700"> (est.)</span> : null}</td>
+                <td className="pr-2">{r.diaIn ?? '?'}</td>
+                <td className="pr-2">{num(r.hoverA, 2, ' A')}{r.noteLow ? '*' : ''}</td>
+                <td className="pr-2">{num(r.throttle, 1, '%')}{r.noteLow ? '*' : ''}</td>
+                <td className="pr-2">{num(r.tw, 2)}</td>
+                <td className="pr-2">{num(r.endurance, 1, ' min')}{!r.feasible && <span className="ml-1 text-xs">({r.reasons.join(', ')})</span>}</td>
+                <td><button className="px-2 py-0.5 rounded bg-gray-800 text-white text-xs" onClick={()=>onPick(r, voltage)}>Compare</button></td>
+              </tr>
+            ))}
+            {!shown.length && <tr><td colSpan={8} className="py-2 text-gray-500">No combinations match.</td></tr>}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">Uses the frame layout and battery set below. Props with no parsable diameter (?) pass the size limit. * Hover is below the spec data and extrapolated.</p>
+    </div>
+  );
+}
+
+// Mission builder: flight segments, energy timeline and per-segment results
+const MISSION_FIELD_LABELS = { value:'T/W', minutes:'Minutes', factor:'Lift factor', kg:'Mass change (kg)', pct:'Keep (%)' };
+const MISSION_FLAGS = {
+  ...FLIGHT_END_NOTES, 'exceeds-max':'beyond spec max thrust', 'over-current':'over battery max', capacity:'battery empty',
+  reserve:'below reserve', 'not-reached':'not reached', 'no-data':'no throttle data',
+};
+const MISSION_VIEWS = [
+  { id:'a',   name:'Current',   unit:' A',  label:'Pack current (A)' },
+  { id:'ah',  name:'Used',      unit:' Ah', label:'Cumulative draw (Ah)' },
+  { id:'rem', name:'Remaining', unit:'%',   label:'Battery remaining (%)' },
+];
+function MissionPanel({ rows, segments, setSegments, layout, motorCount, thrustFactor, specCells, battery, takeoffKgs, batteryMaxA, fitModel }){
+  const [viewId, setViewId] = useState('a');
+  const [addType, setAddType] = useState('hover');
+  const chartRef = useRef(null);
+  const view = byId(MISSION_VIEWS, viewId);
+  const results = useMemo(()=> rows.map((r, i) => simulateMission(r.series, segments, { motorCount, thrustFactor, specCells, battery, takeoffKg: takeoffKgs[i], batteryMaxA, fitModel })),
+    [rows, segments, motorCount, thrustFactor, specCells, battery, takeoffKgs, batteryMaxA, fitModel]);
+  const minKg = Math.min(...takeoffKgs), maxKg = Math.max(...takeoffKgs);
+  const longest = results.reduce((best, m) => (m && (!best || m.minutes > best.minutes) ? m : best), null);
+  const reservePct = segments.find(s => s.type === 'reserve')?.pct;
+
+  const update = (i, patch)=> setSegments(list => list.map((s, j) => j === i ? { ...s, ...patch } : s));
+  const move = (i, d)=> setSegments(list => {
+    const next = [...list];
+    if(i + d < 0 || i + d >= next.length) return list;
+    [next[i], next[i + d]] = [next[i + d], next[i]];
+    return next;
+  });
+  const remove = (i)=> setSegments(list => list.filter((_, j) => j !== i));
+  const csv = ()=> toCsv(
+    ['entry', 'motor', 'prop', 'time_min', 'pack_current_a', 'used_ah', 'remaining_pct'],
+    rows.flatMap((r, i) => (results[i]?.timeline || []).map(d => [r.index + 1, r.spec?.name, r.propSpec?.name, d.t, d.a, d.ah, d.rem])),
+  );
+  const input = "border rounded px-2 py-1 w-24";
+
+  return (
+    <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <h2 className="text-xl font-semibold flex-1">Mission Profile</h2>
+        <span className="text-gray-500">Starts at {maxKg - minKg > 1e-9 ? `${minKg.toFixed(2)}–${maxKg.toFixed(2)}` : minKg.toFixed(2)} kg • {layout.name} • {battery.capacityAh} Ah × {battery.usablePct}%</span>
+      </div>
+      <ol className="space-y-1">
+        {segments.map((s, i) => {
+          const def = byId(MISSION_SEGMENTS, s.type);
+          return (
+            <li key={i} className="flex flex-wrap items-center gap-2">
+              <span className="w-5 text-gray-500">{i + 1}.</span>
+              <select className="border rounded px-2 py-1" value={s.type} onChange={e=>update(i, newSegment(e.target.value))}>
+                {MISSION_SEGMENTS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              {def.fields.map(f => f === 'mode' ? (
+                <select key={f} className="border rounded px-2 py-1" value={s.mode} onChange={e=>update(i, { mode:e.target.value, value: e.target.value === 'throttle' ? 70 : 1.3 })}>
+                  <option value="tw">at T/W</option>
+                  <option value="throttle">at throttle</option>
+                </select>
+              ) : (
+                <label key={f} className="inline-flex items-center gap-1 text-gray-600">
+                  {f === 'value' && s.mode === 'throttle' ? 'Throttle (%)' : MISSION_FIELD_LABELS[f]}
+                  <input type="number" step="any" className={input} value={s[f]} onChange={e=>update(i, { [f]: Number(e.target.value)||0 })} />
+                </label>
+              ))}
+              <span className="ml-auto flex gap-1">
+                <button className="px-2 py-0.5 rounded bg-gray-100" onClick={()=>move(i, -1)} disabled={i === 0}>↑</button>
+                <button className="px-2 py-0.5 rounded bg-gray-100" onClick={()=>move(i, 1)} disabled={i === segments.length - 1}>↓</button>
+                <button className="px-2 py-0.5 rounded bg-gray-100" onClick={()=>remove(i)}>Remove</button>
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+      <div className="flex items-center gap-2">
+        <select className="border rounded px-2 py-1" value={addType} onChange={e=>setAddType(e.target.value)}>
+          {MISSION_SEGMENTS.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <button className="px-3 py-1 rounded bg-gray-800 text-white" onClick={()=>setSegments(list => [...list, newSegment(addType)])}>Add segment</button>
+        <span className="text-xs text-gray-500">Cruise lift factor is the hover-equivalent thrust needed in forward flight (1.0 = hover). Payload drop subtracts mass.</span>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex gap-1">
+          {MISSION_VIEWS.map(v => (
+            <button key={v.id} className={`px-2 py-1 rounded ${v.id === viewId ? 'bg-gray-800 text-white' : 'bg-gray-100'}`} onClick={()=>setViewId(v.id)}>{v.name}</button>
+          ))}
+        </div>
+        <ChartExport targetRef={chartRef} name="mission-timeline" csv={csv} legend={rows} />
+      </div>
+      <div className="h-[360px]" ref={chartRef}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart margin={{ top: 20, right: 20, left: 0, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" dataKey="t" unit=" min" domain={[0, 'dataMax']} tickFormatter={(v)=>Math.round(v*10)/10} label={{ value: 'Mission time (min)', position: 'insideBottom', offset: -5 }} />
+            <YAxis type="number" unit={view.unit} domain={view.id === 'rem' ? [0, 100] : [0, 'auto']} label={{ value: view.label, angle: -90, position: 'insideLeft' }} />
+            <Tooltip formatter={(value, name)=>[Number(value).toFixed(1) + view.unit, name]} labelFormatter={(label)=>`t = ${Number(label).toFixed(1)} min`} />
+            {longest?.segments.filter(x => !x.flags.includes('not-reached')).map((x, i) => (
+              <ReferenceLine key={i} x={x.start} stroke="#cbd5e1" label={{ value: byId(MISSION_SEGMENTS, x.seg.type).name, position: 'insideTopLeft', fontSize: 10, fill: '#64748b' }} />
+            ))}
+            {view.id === 'a' && batteryMaxA > 0 && <ReferenceLine y={batteryMaxA} stroke="#ef4444" strokeDasharray="4 4" ifOverflow="extendDomain" label={{ value: `Battery max ${batteryMaxA} A`, position: 'insideTopRight' }} />}
+            {view.id === 'rem' && reservePct != null && <ReferenceLine y={reservePct} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: `Reserve ${reservePct}%`, position: 'insideTopRight' }} />}
+            {rows.map((r, i) => results[i] && (
+              <Line key={r.key} type={view.id === 'a' ? 'stepBefore' : 'linear'} data={results[i].timeline} dataKey={view.id} name={r.label} dot={false} strokeWidth={2}
+                stroke={r.estFrom ? '#f59e0b' : r.color} strokeDasharray={r.estFrom ? '6 3' : undefined} isAnimationActive={false} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-1 pr-2">Segment</th>
+              {rows.map(r => <th key={r.key} className="pr-2"><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ background:r.color }} />{r.label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {segments.map((s, si) => (
+              <tr key={si} className="border-b align-top">
+                <td className="py-1 pr-2">{si + 1}. {byId(MISSION_SEGMENTS, s.type).name}</td>
+                {rows.map((r, i) => {
+                  const x = results[i]?.segments[si];
+                  if(!x) return <td key={r.key} className="pr-2 text-gray-400">—</td>;
+                  return (
+                    <td key={r.key} className="pr-2">
+                      {x.op && <span>{(x.op.currentA * motorCount).toFixed(1)} A • {x.op.throttle.toFixed(0)}%{x.op.noteLow ? '*' : ''} • </span>}
+                      {s.type === 'drop' ? <span>{x.massKg.toFixed(2)} kg after • </span> : null}
+                      <span>{x.rem.toFixed(0)}% left</span>
+                      {x.flags.map(f => <span key={f} className="ml-1 px-1.5 rounded bg-red-100 text-red-800 text-xs">{MISSION_FLAGS[f]}</span>)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">Each segment holds a constant operating point from the interpolated spec data; pack current rises as the battery sags. Currents are totals for {motorCount} motors. * extrapolated below the data or clamped to the measured throttle range.</p>
+    </div>
+  );
+}
+
+// Go/no-go badges per configuration, with editable thresholds
+const STATUS_STYLES = { pass:'bg-green-100 text-green-800', warn:'bg-amber-100 text-amber-800', fail:'bg-red-100 text-red-800' };
+function SafetyPanel({ rows, results, thresholds, setThresholds }){
+  // Text being typed per "id.key" cell. Valid numbers apply as typed; a cleared or partial field
+  // keeps the last valid limit rather than saving 0, and shows it again on blur.
+  const [drafts, setDrafts] = useState({});
+  const setLimit = (id, key, value)=>{
+    setDrafts(d => ({ ...d, [`${id}.${key}`]: value }));
+    const n = value === '' ? NaN : Number(value);
+    if(Number.isFinite(n)) setThresholds(t => ({ ...t, [id]: { ...t[id], [key]: n } }));
+  };
+  const endEdit = (id, key)=> setDrafts(({ [`${id}.${key}`]: _, ...d }) => d);
+  return (
+    <div className="space-y-3 text-sm">
+      {rows.map((r, i) => (
+        <div key={r.key} className="border-l-4 pl-2" style={{ borderColor:r.color }}>
+          <div className="font-medium">Motor {r.index + 1}{r.spec ? ` • ${r.label}` : ''}</div>
+          {results[i].length ? (
+            <ul className="mt-1 space-y-0.5">
+              {results[i].map(c => (
+                <li key={c.id} className="flex items-center gap-2">
+                  <span className={`w-12 text-center px-1 rounded text-xs font-semibold uppercase ${STATUS_STYLES[c.status]}`}>{c.status}</span>
+                  <span className="flex-1">{c.name}</span>
+                  <b>{Number.isFinite(c.value) ? `${c.value.toFixed(c.unit ? 0 : 2)}${c.unit}` : '—'}</b>
+                  {c.note && <span className="text-xs text-gray-500">({c.note})</span>}
+                </li>
+              ))}
+            </ul>
+          ) : <div className="text-gray-500">Select a motor & prop.</div>}
+        </div>
+      ))}
+      <details>
+        <summary className="cursor-pointer text-gray-600">Thresholds</summary>
+        <table className="mt-2 w-full">
+          <thead><tr className="text-left text-gray-600"><th>Check</th><th>Pass</th><th>Warn</th></tr></thead>
+          <tbody>
+            {SAFETY_CHECKS.map(c => (
+              <tr key={c.id}>
+                <td className="pr-2">{c.name} ({c.higher ? '≥' : '≤'})</td>
+                {['pass', 'warn'].map(k => (
+                  <td key={k} className="pr-2"><input type="number" step="any" className="border rounded px-1 py-0.5 w-20" value={drafts[`${c.id}.${k}`] ?? thresholds[c.id]?.[k] ?? ''} onChange={e=>setLimit(c.id, k, e.target.value)} onBlur={()=>endEdit(c.id, k)} />{c.unit}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button className="mt-2 px-2 py-0.5 rounded bg-gray-200 text-xs" onClick={()=>{ setDrafts({}); setThresholds(Object.fromEntries(SAFETY_CHECKS.map(c => [c.id, { pass:c.pass, warn:c.warn }]))); }}>Reset defaults</button>
+      </details>
+    </div>
+  );
+}
+
+// Curve-fit model picker with per-prop fit quality
+function CurveFitPanel({ rows, fitModel, setFitModel }){
+  const quality = useMemo(()=> rows.map(r => Object.fromEntries(FIT_MODELS.map(m => [m.id, fitQuality(r.series, m.id)]))), [rows]);
+  const num = (v, d)=> v == null ? '—' : v.toFixed(d);
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-col gap-1">
+        {FIT_MODELS.map(m => (
+          <label key={m.id} className="inline-flex items-center gap-2">
+            <input type="radio" name="fit-model" value={m.id} checked={fitModel === m.id} onChange={()=>setFitModel(m.id)} /> {m.name}
+          </label>
+        ))}
+      </div>
+      {rows.map((r, i) => r.series.length > 1 && (
+        <details key={r.key}>
+          <summary className="cursor-pointer"><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ background:r.color }} />{r.label}</summary>
+          <table className="w-full mt-1 text-xs">
+            <thead><tr className="text-left text-gray-600"><th>Model</th><th>R²</th><th>RMSE</th><th title="Leave-one-out: predict each interior point without it">LOO RMSE</th></tr></thead>
+            <tbody>
+              {FIT_MODELS.map(m => {
+                const q = quality[i][m.id];
+                const pl = m.id === 'powerlaw' ? seriesFits(r.series).powerlaw : null;
+                return (
+                  <tr key={m.id} className={m.id === fitModel ? 'font-semibold' : ''}>
+                    <td>{m.name}{pl ? ` (b = ${pl.b.toFixed(2)})` : ''}</td>
+                    <td>{num(q?.r2, 4)}</td>
+                    <td>{num(q?.rmse, 2)} A</td>
+                    <td>{num(q?.loo, 2)} A</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <table className="w-full mt-2 text-xs">
+            <thead><tr className="text-left text-gray-600"><th>Lift (kg)</th><th>Measured (A)</th><th>Fitted (A)</th><th>Residual</th></tr></thead>
+            <tbody>
+              {(quality[i][fitModel]?.residuals || []).map((p, k) => (
+                <tr key={k}>
+                  <td>{p.lift.toFixed(3)}</td>
+                  <td>{p.measured.toFixed(2)}</td>
+                  <td>{num(p.fitted, 2)}</td>
+                  <td className={p.resid != null && Math.abs(p.resid) > 0.05 * p.measured ? 'text-amber-700' : ''}>{p.resid == null ? '—' : (p.resid >= 0 ? '+' : '') + p.resid.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      ))}
+      <p className="text-xs text-gray-500">The selected model drives hover, flight time, mission and sizing estimates. Interpolating models pass through every point, so compare them by LOO RMSE. All models refuse lift above the data and mark lift below it as extrapolated (*).</p>
+    </div>
+  );
+}
+
+// Schema and data-quality findings, one collapsible block per motor
+function DiagnosticsPanel({ catalogs, items }){
+  const count = (issues, level)=> issues.filter(i => i.level === level).length;
+  const Badge = ({ issues, loadError })=>{
+    const errors = count(issues, 'error') + (loadError ? 1 : 0), warns = count(issues, 'warn');
+    if(!errors && !warns) return <span className="px-2 py-0.5 rounded bg-green-100 text-green-800 text-xs">OK</span>;
+    return (
+      <span className="inline-flex gap-1">
+        {errors > 0 && <span className="px-2 py-0.5 rounded bg-red-100 text-red-800 text-xs">{errors} error{errors > 1 ? 's' : ''}</span>}
+        {warns > 0 && <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs">{warns} warning{warns > 1 ? 's' : ''}</span>}
+      </span>
+    );
+  };
+  const IssueList = ({ issues })=> (
+    <ul className="mt-1 space-y-0.5 text-xs">
+      {issues.map((i, k) => <li key={k} className={i.level === 'error' ? 'text-red-700' : 'text-amber-800'}>{i.level === 'error' ? '✖' : '⚠'} {i.msg}</li>)}
+    </ul>
+  );
+  return (
+    <div className="space-y-2 text-sm">
+      {catalogs.filter(c => c.issues.length).map(c => (
+        <details key={c.url} open={c.issues.some(i => i.level === 'error')}>
+          <summary className="cursor-pointer flex items-center gap-2"><span className="flex-1">Catalog: {c.title}</span><Badge issues={c.issues} /></summary>
+          <IssueList issues={c.issues} />
+        </details>
+      ))}
+      {items.map(d => (
+        <details key={d.id} open={!!d.loadError || d.issues.some(i => i.level === 'error')}>
+          <summary className="cursor-pointer flex items-center gap-2">
+            <span className="flex-1">{d.title}</span>
+            {d.loading ? <span className="text-xs text-gray-500">loading…</span> : <Badge issues={d.issues} loadError={d.loadError} />}
+          </summary>
+          {d.loadError && <p className="mt-1 text-xs text-red-700">✖ Failed to load: {d.loadError}</p>}
+          {d.rejected && <p className="mt-1 text-xs text-red-700">✖ Not used until the errors below are fixed.</p>}
+          <IssueList issues={d.issues} />
+        </details>
+      ))}
+      {!items.length && !catalogs.some(c => c.issues.length) && <p className="text-gray-500">Select a motor to check its data.</p>}
+    </div>
+  );
+}
+
 // Drone totals display
-function TotalsDisplay({ series, motorCount }){
-  if(!series || !series.length) return <div className="text-gray-500">Select a motor & prop.</div>;
-  const maxPt = series.reduce((m,p)=> (p.y>m.y? p : m), series[0]);
-  const maxThrustDrone = maxPt.y * motorCount;
-  const peakCurrentTotal = maxPt.x * motorCount;
+function TotalsDisplay({ series, motorCount, thrustFactor = 1 }){
+  const totals = seriesTotals(series, motorCount, thrustFactor);
+  if(!totals) return <div className="text-gray-500">Select a motor & prop.</div>;
   return (
     <div>
-      <div>Max thrust (drone): <b>{maxThrustDrone.toFixed(2)} kg</b></div>
-      <div>Peak current (drone): <b>{peakCurrentTotal.toFixed(1)} A</b></div>
+      <div>Max thrust (drone): <b>{totals.maxThrustKg.toFixed(2)} kg</b></div>
+      <div>Peak current (drone): <b>{totals.peakCurrentA.toFixed(1)} A</b></div>
+    </div>
+  );
+}
+
+// PNG / SVG / CSV export buttons for a chart card
+function ChartExport({ targetRef, name, csv, legend }){
+  const [error, setError] = useState(null);
+  const file = slugify(name) || 'chart';
+  const svg = ()=>{
+    const text = chartSvgText(targetRef.current, legend);
+    if(!text) setError('Nothing to export yet.');
+    return text;
+  };
+  const png = async ()=>{
+    const text = svg();
+    if(!text) return;
+    try{ downloadBlob(`${file}.png`, await svgToPngBlob(text)); setError(null); }
+    catch(e){ setError(e?.message || String(e)); }
+  };
+  const btn = "px-2 py-0.5 rounded bg-gray-100 hover:bg-gray-200";
+  return (
+    <div className="flex items-center gap-1 text-xs print:hidden">
+      <span className="text-gray-500">Export</span>
+      <button className={btn} onClick={png}>PNG</button>
+      <button className={btn} onClick={()=>{ const t = svg(); if(t){ downloadText(`${file}.svg`, t, 'image/svg+xml'); setError(null); } }}>SVG</button>
+      <button className={btn} onClick={()=>downloadText(`${file}.csv`, csv(), 'text/csv')}>CSV</button>
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
+
+// One-page printable comparison report; charts are static images captured when it was opened
+function ReportView({ rows, hovers, charts, setup, limitMode, motorCount, thrustFactor, onClose }){
+  const star = (h)=> h?.noteLow ? '*' : '';
+  const Row = ({ label, children })=> <tr><td className="pr-4 text-gray-600">{label}</td><td>{children}</td></tr>;
+  return (
+    <div className="fixed inset-0 z-50 overflow-auto bg-white print:static print:overflow-visible">
+      <div className="max-w-[900px] mx-auto p-8 space-y-5 text-sm">
+        <div className="flex items-start gap-4">
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold">Motor comparison report</h1>
+            <p className="text-gray-600">{new Date().toLocaleString()} • <span className="break-all">{window.location.href}</span></p>
+          </div>
+          <div className="flex gap-2 print:hidden">
+            <button className="px-3 py-1 rounded bg-gray-800 text-white" onClick={()=>window.print()}>Print / Save PDF</button>
+            <button className="px-3 py-1 rounded bg-gray-200" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-6">
+          <section>
+            <h2 className="font-semibold mb-1">Configuration</h2>
+            <table><tbody>
+              <Row label="Frame">{setup.layout}</Row>
+              <Row label="Takeoff weight">{Number(setup.takeoffKg.toFixed(2))} kg {setup.addPropulsion ? '+ motors & props per slot' : `(${setup.perMotorLiftKg.toFixed(3)} kg per motor)`}</Row>
+              <Row label="Spec voltage">{setup.voltage}</Row>
+              <Row label="Battery">{setup.battery}</Row>
+              <Row label="Usable capacity">{setup.usablePct}%</Row>
+              <Row label="Battery max current">{setup.batteryMaxA} A</Row>
+              <Row label="Power train">{setup.powertrain}</Row>
+              <Row label="Curve model">{setup.fitModel}</Row>
+              <Row label="Environment">{setup.environment}</Row>
+            </tbody></table>
+          </section>
+          <section>
+            <h2 className="font-semibold mb-1">Motors & props</h2>
+            <ol className="list-decimal pl-5">
+              {rows.map(r => <li key={r.key}><span className="inline-block w-2.5 h-2.5 rounded-full mr-1" style={{ background:r.color }} />{r.label}</li>)}
+            </ol>
+          </section>
+        </div>
+
+        <section>
+          <h2 className="font-semibold mb-1">Results</h2>
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-1">#</th><th>Max thrust</th><th>Peak current</th>
+                <th>{limitMode === 'total' ? 'Total hover current' : 'Hover current / motor'}</th>
+                <th>Throttle</th><th>Total current</th><th>Takeoff</th><th>g/W</th><th>Flight time</th><th>Energy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, i) => {
+                const t = seriesTotals(r.series, motorCount, thrustFactor);
+                const h = hovers[i]?.hover, f = hovers[i]?.flight;
+                return (
+                  <tr key={r.key} className="border-b align-top">
+                    <td className="py-1">{r.index + 1}</td>
+                    <td>{t ? `${t.maxThrustKg.toFixed(2)} kg` : '—'}</td>
+                    <td>{t ? `${t.peakCurrentA.toFixed(1)} A` : '—'}</td>
+                    {h?.ok ? (
+                      <>
+                        <td>{(h.currentA * (limitMode === 'total' ? motorCount : 1)).toFixed(2)} A{star(h)}</td>
+                        <td>{h.throttle.toFixed(1)}%{star(h)}</td>
+                        <td>{(h.currentA * motorCount).toFixed(1)} A{star(h)}</td>
+                        <td>{hovers[i].takeoffKg.toFixed(2)} kg</td>
+                        <td>{hovers[i].gpw != null ? `${hovers[i].gpw.toFixed(2)}${star(h)}` : '—'}</td>
+                        <td>{f ? `${f.minutes.toFixed(1)} min${star(h)}` : '—'}</td>
+                        <td>{f ? `${f.wh.toFixed(0)} Wh` : '—'}</td>
+                      </>
+                    ) : (
+                      <td colSpan={7} className="text-red-600">{r.loadError ? `Spec failed to load: ${r.loadError}` : h?.reason === 'exceeds-max' ? 'Required lift exceeds the max in the spec sheet.' : 'No data for this selection.'}</td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-1 text-xs text-gray-500">* Spec sheet doesn’t include data that low; value is extrapolated below the lowest listed point.{rows.some(r => r.estFrom) ? ' Entries marked “est.” are scaled from other voltages.' : ''}</p>
+        </section>
+
+        {charts.map(c => (
+          <section key={c.title} className="break-inside-avoid">
+            <h2 className="font-semibold mb-1">{c.title}</h2>
+            {c.svg ? <img src={svgDataUrl(c.svg)} alt={c.title} className="w-full border rounded" /> : <p className="text-gray-500">Chart not available.</p>}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Local motor/prop data editor with CSV/TSV import and JSON export
+const emptySpec = ()=> ({ id:'', name:'', props:[{ id:'', name:'', data:{} }] });
+function SpecEditor({ userSpecs, setUserSpecs, sourceSpecs, defaultVoltage }){
+  const [editingId, setEditingId] = useState(null); // id of the saved spec being edited, null = new
+  const [draft, setDraft] = useState(emptySpec);
+  const [propIdx, setPropIdx] = useState(0);
+  const [vKey, setVKey] = useState(defaultVoltage);
+  const [newVKey, setNewVKey] = useState('');
+  const [importText, setImportText] = useState('');
+  const [mapping, setMapping] = useState([]);
+  const [units, setUnits] = useState({ thrust:'kg', throttle:'pct', voltage: (cellsOf(defaultVoltage) || 12) * SPEC_CELL_V });
+  const [message, setMessage] = useState(null);
+
+  const prop = draft.props[propIdx] || draft.props[0];
+  const rowsAt = prop?.data?.[vKey] || [];
+  const parsed = useMemo(()=> parseDelimited(importText), [importText]);
+  const voltageKeys = Object.keys(prop?.data || {});
+  const tableIssues = useMemo(()=> dataQualityIssues(rowsAt, vKey), [rowsAt, vKey]);
+
+  // Re-guess the column mapping whenever the pasted table's header changes
+  useEffect(()=>{
+    const width = Math.max(parsed.header?.length || 0, ...parsed.rows.map(r => r.length), 0);
+    setMapping(Array.from({ length: width }, (_, i) => parsed.header ? guessImportField(parsed.header[i]) : (['throttle', 'current', 'thrust'][i] || 'ignore')));
+    if(parsed.header) setUnits(u => ({ ...u, ...guessImportUnits(parsed.header) }));
+  }, [parsed]);
+
+  const startEdit = (spec, savedId)=>{
+    setDraft(JSON.parse(JSON.stringify(spec?.props?.length ? spec : { ...emptySpec(), ...spec })));
+    setEditingId(savedId ?? null);
+    setPropIdx(0);
+    const keys = Object.keys(spec?.props?.[0]?.data || {});
+    setVKey(keys.includes(defaultVoltage) || !keys.length ? defaultVoltage : keys[0]);
+    setMessage(null);
+  };
+  const setProp = (patch)=> setDraft(d => ({ ...d, props: d.props.map((p, i) => i === propIdx ? { ...p, ...patch } : p) }));
+  const setRows = (rows)=> setProp({ data: { ...(prop?.data || {}), [vKey]: rows } });
+  const setCell = (ri, field, value)=> setRows(rowsAt.map((r, i) => i === ri ? { ...r, [field]: value === '' ? '' : Number(value) } : r));
+  const addProp = ()=>{ setDraft(d => ({ ...d, props: [...d.props, { id:'', name:'', data:{} }] })); setPropIdx(draft.props.length); };
+  const removeProp = ()=>{ setDraft(d => ({ ...d, props: d.props.filter((_, i) => i !== propIdx) })); setPropIdx(0); };
+  const removeVoltage = ()=>{
+    const { [vKey]: _, ...rest } = prop?.data || {};
+    setProp({ data: rest });
+  };
+  const addVoltage = ()=>{
+    const key = /^\d+(\.\d+)?$/.test(newVKey.trim()) ? `${newVKey.trim()}S` : newVKey.trim();
+    if(!key) return;
+    if(!prop?.data?.[key]) setProp({ data: { ...(prop?.data || {}), [key]: [] } });
+    setVKey(key); setNewVKey('');
+  };
+  const applyImport = ()=>{
+    const { points, error } = convertImportedRows(parsed, mapping, units);
+    if(error){ setMessage({ error }); return; }
+    setRows(points);
+    setMessage({ ok:`Imported ${points.length} rows into ${prop?.name || 'prop'} @ ${vKey}.` });
+  };
+
+  // Clean a draft into the spec file format; returns { spec } or { error }
+  const finalize = ()=>{
+    const id = draft.id.trim() || slugify(draft.name);
+    if(!id) return { error:'Motor needs an id or name.' };
+    const props = draft.props.map(p => ({
+      id: p.id.trim() || slugify(p.name),
+      name: p.name.trim() || p.id.trim(),
+      ...(Number.isFinite(p.mass_g) ? { mass_g: p.mass_g } : {}),
+      data: Object.fromEntries(Object.entries(p.data || {})
+        .map(([k, rows]) => [k, rows.filter(r => [r.throttle, r.current, r.thrust_kg].every(Number.isFinite)).sort((a,b)=>a.throttle-b.throttle)])
+        .filter(([, rows]) => rows.length)),
+    }));
+    if(props.some(p => !p.id)) return { error:'Every prop needs an id or name.' };
+    const meta = Object.fromEntries(MOTOR_META_FIELDS
+      .map(({ key, type }) => [key, type === 'number' ? (draft[key] === '' || draft[key] == null ? null : Number(draft[key])) : String(draft[key] ?? '').trim()])
+      .filter(([, v]) => v != null && v !== '' && !Number.isNaN(v)));
+    return { spec: { schemaVersion: SCHEMA_VERSION, id, name: draft.name.trim() || id, ...meta, props } };
+  };
+  const save = ()=>{
+    const { spec, error } = finalize();
+    if(error){ setMessage({ error }); return; }
+    if(spec.id !== editingId && userSpecs.some(s => s.id === spec.id)){ setMessage({ error:`A local motor "${spec.id}" already exists.` }); return; }
+    setUserSpecs(list => editingId != null ? list.map(s => s.id === editingId ? spec : s) : [...list, spec]);
+    setEditingId(spec.id);
+    setDraft(spec);
+    setMessage({ ok:`Saved "${spec.name}" to this browser.` });
+  };
+  const remove = ()=>{
+    if(editingId == null) return;
+    setUserSpecs(list => list.filter(s => s.id !== editingId));
+    startEdit(emptySpec());
+  };
+  const exportJson = ()=>{
+    const { spec, error } = finalize();
+    if(error){ setMessage({ error }); return; }
+    downloadText(`${spec.id}.json`, JSON.stringify(spec, null, 2) + '\n');
+  };
+  const indexLine = `{ "id": "${draft.id || slugify(draft.name)}", "name": "${draft.name}", "url": "./${draft.id || slugify(draft.name)}.json" }`;
+
+  const input = "border rounded px-2 py-1 w-full";
+  return (
+    <div className="p-4 bg-white rounded-2xl shadow-sm space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-xl font-semibold flex-1">Motor data editor</h2>
+        <select className="border rounded px-2 py-1 text-sm" value={editingId ?? ''} onChange={e=>{ const s = byId(userSpecs, e.target.value); s ? startEdit(s, s.id) : startEdit(emptySpec()); }}>
+          <option value="">New local motor…</option>
+          {userSpecs.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <select className="border rounded px-2 py-1 text-sm" value="" onChange={e=>{ const s = sourceSpecs.find(s => s.id === e.target.value); if(s) startEdit({ ...s, id:`${s.id}-copy`, name:`${s.name} (copy)` }); }}>
+          <option value="">Copy from loaded motor…</option>
+          {sourceSpecs.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <label>Motor id<input className={input} value={draft.id} placeholder={slugify(draft.name) || 'e.g. kde8218xf-120'} onChange={e=>setDraft(d => ({ ...d, id:e.target.value }))} /></label>
+        <label>Motor name<input className={input} value={draft.name} onChange={e=>setDraft(d => ({ ...d, name:e.target.value }))} /></label>
+      </div>
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-600">Motor details (optional)</summary>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-2">
+          {MOTOR_META_FIELDS.map(f => (
+            <label key={f.key}>{f.name}
+              <input type={f.type === 'number' ? 'number' : 'text'} step="any" className={input} value={draft[f.key] ?? ''} onChange={e=>setDraft(d => ({ ...d, [f.key]: e.target.value }))} />
+            </label>
+          ))}
+        </div>
+      </details>
+
+      <div className="flex flex-wrap items-end gap-2 text-sm">
+        <label>Prop
+          <select className={input} value={propIdx} onChange={e=>setPropIdx(Number(e.target.value))}>
+            {draft.props.map((p, i) => <option key={i} value={i}>{p.name || p.id || `Prop ${i+1}`}</option>)}
+          </select>
+        </label>
+        <label>Prop id<input className={input} value={prop?.id || ''} placeholder={slugify(prop?.name)} onChange={e=>setProp({ id:e.target.value })} /></label>
+        <label className="flex-1">Prop name<input className={input} value={prop?.name || ''} onChange={e=>setProp({ name:e.target.value })} /></label>
+        <label>Prop mass (g)<input type="number" step="1" min="0" className={input} value={prop?.mass_g ?? ''} onChange={e=>setProp({ mass_g: e.target.value === '' ? undefined : Number(e.target.value) })} /></label>
+        <button className="px-2 py-1 rounded bg-gray-200" onClick={addProp}>+ Prop</button>
+        <button className="px-2 py-1 rounded bg-gray-200 disabled:opacity-50" disabled={draft.props.length <= 1} onClick={removeProp}>Remove prop</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-600">Voltage:</span>
+        {[...new Set([...voltageKeys, vKey])].map(k => (
+          <button key={k} className={`px-2 py-0.5 rounded ${k === vKey ? 'bg-gray-800 text-white' : 'bg-gray-200'}`} onClick={()=>setVKey(k)}>{k}</button>
+        ))}
+        <input className="border rounded px-2 py-0.5 w-20" placeholder="e.g. 10S" value={newVKey} onChange={e=>setNewVKey(e.target.value)} />
+        <button className="px-2 py-0.5 rounded bg-gray-200" onClick={addVoltage}>+ Voltage</button>
+        <button className="px-2 py-0.5 rounded bg-gray-200" onClick={removeVoltage}>Remove {vKey}</button>
+      </div>
+
+      <table className="text-sm w-full">
+        <thead><tr className="text-left text-gray-600"><th>Throttle (%)</th><th>Current (A)</th><th>Thrust (kg)</th><th /></tr></thead>
+        <tbody>
+          {rowsAt.map((r, i) => (
+            <tr key={i}>
+              {['throttle', 'current', 'thrust_kg'].map(f => (
+                <td key={f} className="pr-2"><input type="number" step="any" className="border rounded px-1 py-0.5 w-full" value={r[f] ?? ''} onChange={e=>setCell(i, f, e.target.value)} /></td>
+              ))}
+              <td><button className="px-2 text-gray-500" title="Remove row" onClick={()=>setRows(rowsAt.filter((_, j) => j !== i))}>×</button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button className="px-2 py-1 rounded bg-gray-200 text-sm" onClick={()=>setRows([...rowsAt, { throttle:'', current:'', thrust_kg:'' }])}>+ Row</button>
+      {tableIssues.length > 0 && (
+        <ul className="text-xs text-amber-800 space-y-0.5">{tableIssues.map((i, k) => <li key={k}>⚠ {i.msg}</li>)}</ul>
+      )}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer font-medium">Import CSV/TSV into {vKey}</summary>
+        <div className="space-y-2 mt-2">
+          <textarea className="border rounded px-2 py-1 w-full h-32 font-mono text-xs" placeholder={"Paste a manufacturer table or thrust-stand log, e.g.\nThrottle (%)\tCurrent (A)\tThrust (g)"} value={importText} onChange={e=>setImportText(e.target.value)} />
+          {mapping.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {mapping.map((f, i) => (
+                <label key={i} className="text-xs">{parsed.header?.[i] || `Column ${i+1}`}
+                  <select className="border rounded px-1 py-0.5 w-full" value={f} onChange={e=>setMapping(m => m.map((x, j) => j === i ? e.target.value : x))}>
+                    {Object.entries(IMPORT_FIELDS).map(([k, name]) => <option key={k} value={k}>{name}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-3">
+            <label>Thrust unit
+              <select className="ml-1 border rounded px-1 py-0.5" value={units.thrust} onChange={e=>setUnits(u => ({ ...u, thrust:e.target.value }))}>
+                {Object.keys(THRUST_UNITS).map(k => <option key={k} value={k}>{k}</option>)}
+              </select>
+            </label>
+            <label>Throttle unit
+              <select className="ml-1 border rounded px-1 py-0.5" value={units.throttle} onChange={e=>setUnits(u => ({ ...u, throttle:e.target.value }))}>
+                {Object.entries(THROTTLE_UNITS).map(([k, name]) => <option key={k} value={k}>{name}</option>)}
+              </select>
+            </label>
+            {mapping.includes('power') && !mapping.includes('voltage') && (
+              <label>W → A at
+                <input type="number" step="0.1" className="ml-1 border rounded px-1 py-0.5 w-20" value={units.voltage} onChange={e=>setUnits(u => ({ ...u, voltage:Number(e.target.value)||0 }))} /> V
+              </label>
+            )}
+          </div>
+          {parsed.ragged.length > 0 && (
+            <p className="text-xs text-amber-800">⚠ Skipping {parsed.ragged.length === 1 ? 'line' : 'lines'} {parsed.ragged.join(', ')}: column count differs from the first line.</p>
+          )}
+          <button className="px-3 py-1 rounded bg-gray-800 text-white" onClick={applyImport}>Replace {vKey} rows with {parsed.rows.length} imported</button>
+        </div>
+      </details>
+
+      {message && <p className={`text-sm ${message.error ? 'text-red-600' : 'text-green-700'}`}>{message.error || message.ok}</p>}
+      <div className="flex flex-wrap gap-2 text-sm">
+        <button className="px-3 py-1 rounded bg-gray-800 text-white" onClick={save}>Save to browser</button>
+        <button className="px-3 py-1 rounded bg-gray-200" onClick={exportJson}>Export JSON</button>
+        <button className="px-3 py-1 rounded bg-gray-200 disabled:opacity-50" disabled={editingId == null} onClick={remove}>Delete</button>
+      </div>
+      <p className="text-xs text-gray-500">To contribute upstream, add the exported file to <code>public/motors/</code> and this line to <code>index.json</code>: <code>{indexLine}</code></p>
     </div>
   );
 }
 
 // ================= Main =================
 export default function App(){
-  // Catalog state
-  const [catalog, setCatalog] = useState([]);
-  const [catError, setCatError] = useState(null);
-  const [catalogUrl, setCatalogUrl] = useState('./motors/index.json');
-  const [tempCatalogUrl, setTempCatalogUrl] = useState('./motors/index.json');
-
-  // Selections
-  const [motorAId, setMotorAId] = useState();
-  const [motorBId, setMotorBId] = useState();
-  const [motorASpec, setMotorASpec] = useState();
-  const [motorBSpec, setMotorBSpec] = useState();
-  const [propA, setPropA] = useState();
-  const [propB, setPropB] = useState();
-  const [voltage, setVoltage] = useState('12S');
+  // Initial setup: defaults overridden by whatever the URL hash carries
+  const [init] = useState(()=> ({ ...DEFAULT_SESSION, ...decodeSession(window.location.hash) }));
+
+  // Catalog sources, merged in order into one picker
+  const [catalogUrls, setCatalogUrls] = useState(init.catalogUrls);
+  const [catalogSources, setCatalogSources] = useState({}); // keyed by url: { status, label, base, list, issues, error, stale }
+  const [tempCatalogUrl, setTempCatalogUrl] = useState('');
+
+  // Selections: one entry per motor/prop combination being compared
+  const [entries, setEntries] = useState(()=> entriesFromSession(init.entries));
+  const [specs, setSpecs] = useState({}); // motor spec cache keyed by url (null = failed)
+  const [specErrors, setSpecErrors] = useState({}); // load failure message keyed by url
+  const [specIssues, setSpecIssues] = useState({}); // validation issues of specs rejected for schema errors
+  const [staleSpecs, setStaleSpecs] = useState({}); // cached copy in use because the url failed, keyed by url
+  const [userSpecs, setUserSpecs] = useState(loadUserSpecs); // specs created in the editor
+  const [showEditor, setShowEditor] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showSizing, setShowSizing] = useState(false);
+  const [showBrowser, setShowBrowser] = useState(false);
+  const [voltage, setVoltage] = useState(init.voltage);
+  const [estimateVoltage, setEstimateVoltage] = useState(init.estimateVoltage); // scale other voltages' data when none is measured
 
   // Battery / mode
-  const motorCount = 4;
-  const [takeoffKg, setTakeoffKg] = useState(10);
-  const [capacityAh, setCapacityAh] = useState(20);
-  const [usablePct, setUsablePct] = useState(80);
-  const [batteryMaxA, setBatteryMaxA] = useState(100);
-  const [limitMode, setLimitMode] = useState('perMotor'); // 'perMotor' | 'total'
-
-  // Load catalog
+  const [layoutId, setLayoutId] = useState(init.layoutId);
+  const [coaxLossPct, setCoaxLossPct] = useState(init.coaxLossPct); // lower-prop thrust loss on coaxial frames
+  const layout = useMemo(()=> byId(FRAME_LAYOUTS, layoutId) || FRAME_LAYOUTS[0], [layoutId]);
+  const motorCount = layout.motors;
+  const thrustFactor = useMemo(()=> layoutThrustFactor(layout, coaxLossPct), [layout, coaxLossPct]);
+  const [takeoffInputKg, setTakeoffKg] = useState(init.takeoffKg);
+  const [capacityAh, setCapacityAh] = useState(init.capacityAh);
+  const [usablePct, setUsablePct] = useState(init.usablePct);
+  const [cells, setCells] = useState(init.cells);
+  const [chemistry, setChemistry] = useState(init.chemistry);
+  const [irMohm, setIrMohm] = useState(init.irMohm); // per-cell internal resistance
+  // Power train between pack and motors; the defaults are lossless
+  const [escEffPct, setEscEffPct] = useState(init.escEffPct);
+  const [wiringMohm, setWiringMohm] = useState(init.wiringMohm);
+  const [auxLoad, setAuxLoad] = useState(init.auxLoad);
+  const [auxUnit, setAuxUnit] = useState(init.auxUnit); // 'W' | 'A'
+  const [escMaxA, setEscMaxA] = useState(init.escMaxA); // ESC rating per motor, 0 = not set
+  const battery = useMemo(()=> ({ capacityAh, usablePct, cells, chemistry, irMohm, escEffPct, wiringMohm, auxLoad, auxUnit }),
+    [capacityAh, usablePct, cells, chemistry, irMohm, escEffPct, wiringMohm, auxLoad, auxUnit]);
+  const specCells = useMemo(()=> cellsOf(voltage), [voltage]);
+  const dataVolts = useMemo(()=> (specCells || cells) * SPEC_CELL_V, [specCells, cells]); // voltage behind the spec currents
+  const packWh = useMemo(()=> capacityAh * cells * (byId(CHEMISTRIES, chemistry)?.nominalV ?? SPEC_CELL_V), [capacityAh, cells, chemistry]);
+  // Battery mass in the loop: takeoff weight derived from airframe, payload and pack mass
+  const [massMode, setMassMode] = useState(init.massMode); // 'direct' | 'derived'
+  const [dryKg, setDryKg] = useState(init.dryKg);          // airframe without battery or payload
+  const [payloadKg, setPayloadKg] = useState(init.payloadKg);
+  const [densityMode, setDensityMode] = useState(init.densityMode); // 'whkg' | 'gah'
+  const [whPerKg, setWhPerKg] = useState(init.whPerKg);
+  const [gPerAh, setGPerAh] = useState(init.gPerAh);
+  const [gPerAhCells, setGPerAhCells] = useState(init.gPerAhCells);
+  const kgPerAh = useMemo(()=> packKgPerAh({ densityMode, whPerKg, gPerAh, gPerAhCells }, cells, chemistry), [densityMode, whPerKg, gPerAh, gPerAhCells, cells, chemistry]);
+  const packKg = capacityAh * kgPerAh;
+  const takeoffKg = massMode === 'derived' ? dryKg + payloadKg + packKg : takeoffInputKg;
+  // When set, takeoffKg excludes motors and props; each slot adds its own from the spec masses
+  const [addPropulsion, setAddPropulsion] = useState(init.addPropulsion);
+  const [batteryMaxA, setBatteryMaxA] = useState(init.batteryMaxA);
+  const [missionSegments, setMissionSegments] = useState(()=> decodeMission(init.mission));
+  const [showMission, setShowMission] = useState(false);
+  const [limitMode, setLimitMode] = useState(init.limitMode); // 'perMotor' | 'total'
+  const [fitModel, setFitModel] = useState(init.fitModel);   // FIT_MODELS id used for every current lookup
+  // Environment: spec data is sea level; thrust and current are scaled by the density ratio
+  const [envCorrect, setEnvCorrect] = useState(init.envCorrect);
+  const [elevationM, setElevationM] = useState(init.elevationM);
+  const [tempC, setTempC] = useState(init.tempC);
+  const [humidityPct, setHumidityPct] = useState(init.humidityPct);
+  const airRho = useMemo(()=> airDensity(elevationM, tempC, humidityPct), [elevationM, tempC, humidityPct]);
+  const sigma = envCorrect && airRho > 0 ? airRho / SEA_LEVEL_RHO : 1;
+
+  // Session ⇄ URL: the hash always reflects the current setup
+  const session = useMemo(()=> ({
+    catalogUrls,
+    entries: entries.map(({ motorId, propId, color }) => ({ motorId, propId, color })),
+    voltage, estimateVoltage, layoutId, coaxLossPct, takeoffKg: takeoffInputKg, capacityAh, usablePct,
+    cells, chemistry, irMohm, batteryMaxA, limitMode,
+    massMode, dryKg, payloadKg, densityMode, whPerKg, gPerAh, gPerAhCells,
+    mission: encodeMission(missionSegments), fitModel,
+    envCorrect, elevationM, tempC, humidityPct, addPropulsion,
+    escEffPct, wiringMohm, auxLoad, auxUnit, escMaxA,
+  }), [catalogUrls, entries, voltage, estimateVoltage, layoutId, coaxLossPct, takeoffInputKg, capacityAh, usablePct, cells, chemistry, irMohm, batteryMaxA, limitMode,
+    massMode, dryKg, payloadKg, densityMode, whPerKg, gPerAh, gPerAhCells, missionSegments, fitModel,
+    envCorrect, elevationM, tempC, humidityPct, addPropulsion, escEffPct, wiringMohm, auxLoad, auxUnit, escMaxA]);
+  const applySession = (s)=>{
+    const x = { ...DEFAULT_SESSION, ...s };
+    setCatalogUrls(s.catalogUrls || (s.catalogUrl ? [s.catalogUrl] : x.catalogUrls)); // sessions saved before multiple sources
+    setEntries(entriesFromSession(x.entries));
+    setVoltage(x.voltage); setEstimateVoltage(!!x.estimateVoltage);
+    setLayoutId(x.layoutId); setCoaxLossPct(x.coaxLossPct);
+    setTakeoffKg(x.takeoffKg); setCapacityAh(x.capacityAh); setUsablePct(x.usablePct);
+    setCells(x.cells); setChemistry(x.chemistry); setIrMohm(x.irMohm);
+    setBatteryMaxA(x.batteryMaxA); setLimitMode(x.limitMode);
+    setMassMode(x.massMode); setDryKg(x.dryKg); setPayloadKg(x.payloadKg);
+    setDensityMode(x.densityMode); setWhPerKg(x.whPerKg); setGPerAh(x.gPerAh); setGPerAhCells(x.gPerAhCells);
+    setMissionSegments(decodeMission(x.mission)); setFitModel(x.fitModel);
+    setEnvCorrect(!!x.envCorrect); setElevationM(x.elevationM); setTempC(x.tempC); setHumidityPct(x.humidityPct);
+    setAddPropulsion(!!x.addPropulsion);
+    setEscEffPct(x.escEffPct); setWiringMohm(x.wiringMohm); setAuxLoad(x.auxLoad); setAuxUnit(x.auxUnit); setEscMaxA(x.escMaxA);
+  };
+  useEffect(()=>{
+    const hash = '#' + encodeSession(session);
+    if(window.location.hash !== hash) window.history.replaceState(null, '', hash);
+  }, [session]);
   useEffect(()=>{
-    let cancelled=false;
-    async function load(){
+    // A link pasted into this tab's address bar only changes the hash
+    const onHash = ()=>{ const s = decodeSession(window.location.hash); if(Object.keys(s).length) applySession(s); };
+    window.addEventListener('hashchange', onHash);
+    return ()=> window.removeEventListener('hashchange', onHash);
+  }, []);
+
+  // Load catalog sources. Like specs, each url loads once and a late response is still valid.
+  useEffect(()=>{
+    const urls = catalogUrls.filter(u => !(u in catalogSources));
+    if(!urls.length) return;
+    setCatalogSources(s => ({ ...s, ...Object.fromEntries(urls.map(u => [u, { status:'loading', label: sourceLabel(u), list:[], issues:[] }])) }));
+    async function loadOne(url){
+      const base = absoluteUrl(normalizeCatalogUrl(url));
       try{
-        setCatError(null);
-        const res = await fetch(normalizeCatalogUrl(catalogUrl), { cache:'no-store' });
-        if(!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = await res.json();
-        const list = Array.isArray(data) ? data : (data.catalog || []);
-        if(!cancelled) setCatalog(list);
-      }catch(e){ if(!cancelled) setCatError(String(e)); }
+        const { data, stale } = await fetchJsonCached(base);
+        const { list, issues } = validateCatalog(data);
+        setCatalogSources(s => ({ ...s, [url]: { status:'ok', label: sourceLabel(url, data), base, list, issues, stale } }));
+      }catch(e){
+        setCatalogSources(s => ({ ...s, [url]: { status:'error', label: sourceLabel(url), list:[], issues:[], error: e instanceof SyntaxError ? `Invalid JSON (${e.message})` : (e?.message || String(e)) } }));
+      }
     }
-    load();
-    return ()=>{cancelled=true};
-  }, [catalogUrl]);
+    urls.forEach(loadOne);
+  }, [catalogUrls, catalogSources]);
+  const addCatalogSource = (url)=>{
+    const u = url.trim();
+    if(u && !catalogUrls.includes(u)) setCatalogUrls(list => [...list, u]);
+    setTempCatalogUrl('');
+  };
+  const removeCatalogSource = (url)=> setCatalogUrls(list => list.filter(u => u !== url));
+  const reloadCatalogSource = (url)=> setCatalogSources(s => { const { [url]: _, ...rest } = s; return rest; });
+  const mergedCatalog = useMemo(()=> mergeCatalogs(catalogUrls.map(url => ({ url, ...catalogSources[url] })).filter(s => s.status === 'ok')), [catalogUrls, catalogSources]);
+  const catalogDiagnostics = useMemo(()=> catalogUrls.map(url => {
+    const s = catalogSources[url] || {};
+    return {
+      url, title: s.label || url,
+      issues: [
+        ...(s.error ? [{ level:'error', msg:`Failed to load ${url}: ${s.error}` }] : []),
+        ...(s.stale ? [{ level:'warn', msg:`Source unreachable (${s.stale.error}); using the copy cached ${new Date(s.stale.at).toLocaleString()}.` }] : []),
+        ...(s.issues || []),
+        ...mergedCatalog.notes.filter(n => n.source === url),
+      ],
+    };
+  }), [catalogUrls, catalogSources, mergedCatalog]);
 
-  // Load motor specs
-  const urlFor = (id)=> (catalog.find(m=>m.id===id)?.url);
-  useEffect(()=>{
-    let cancelled=false;
-    async function loadOne(id, setter){
-      if(!id){ setter(undefined); return; }
-      const url = urlFor(id);
-      if(!url){ setter(undefined); return; }
+  // Local specs persist in the browser and sit alongside the loaded catalogs
+  useEffect(()=>{ saveUserSpecs(userSpecs); }, [userSpecs]);
+  const pickerCatalog = useMemo(()=> [...mergedCatalog.list, ...userSpecs.map(localCatalogEntry)], [mergedCatalog, userSpecs]);
+
+  // Load motor specs. Each url is fetched once and shared by every entry using that motor;
+  // results are keyed by url, so a late response is still valid and isn't cancelled.
+  const urlFor = (id)=> (pickerCatalog.find(m=>m.id===id)?.url);
+  const specFor = (id)=>{
+    const url = urlFor(id);
+    return isLocalUrl(url) ? byId(userSpecs, url.slice(LOCAL_PREFIX.length)) : (specs[url] || undefined);
+  };
+  // Urls already requested, so the loader doesn't depend on (and go stale with) `specs`
+  const requestedSpecs = useRef(new Set());
+  const fetchSpecs = useCallback((wanted)=>{
+    const urls = [...new Set(wanted.filter(u => u && !isLocalUrl(u)))].filter(u => !requestedSpecs.current.has(u));
+    if(!urls.length) return;
+    urls.forEach(u => requestedSpecs.current.add(u));
+    setSpecs(s => ({ ...s, ...Object.fromEntries(urls.map(u => [u, undefined])) })); // mark pending
+    async function loadOne(url){
       try{
-        const res = await fetch(url, { cache:'no-store' });
-        if(!res.ok) throw new Error(`HTTP ${res.status}`);
-        const data = await res.json();
-        if(!cancelled) setter(data);
-      }catch(_){ if(!cancelled) setter(undefined); }
+        const { data, stale } = await fetchJsonCached(url);
+        if(stale) setStaleSpecs(s => ({ ...s, [url]: stale }));
+        // Only schema-valid specs reach the calculations; warnings are shown but don't block
+        const issues = validateSpec(data);
+        const errors = issues.filter(i => i.level === 'error').length;
+        if(errors){
+          setSpecs(s => ({ ...s, [url]: null }));
+          setSpecIssues(s => ({ ...s, [url]: issues }));
+          setSpecErrors(s => ({ ...s, [url]: `${errors} schema error${errors > 1 ? 's' : ''}; see Data quality` }));
+          return;
+        }
+        setSpecs(s => ({ ...s, [url]: data }));
+      }catch(e){
+        setSpecs(s => ({ ...s, [url]: null }));
+        setSpecErrors(s => ({ ...s, [url]: e instanceof SyntaxError ? `Invalid JSON (${e.message})` : (e?.message || String(e)) }));
+      }
     }
-    loadOne(motorAId, setMotorASpec);
-    loadOne(motorBId, setMotorBSpec);
-    return ()=>{cancelled=true};
-  }, [motorAId, motorBId, catalog]);
+    urls.forEach(loadOne);
+  }, []);
+  useEffect(()=>{ fetchSpecs(entries.map(e => urlFor(e.motorId))); }, [entries, pickerCatalog, fetchSpecs]);
+
+  // Sizing: every catalog spec, and loading a ranked row into the comparison
+  const catalogRemoteUrls = useMemo(()=> [...new Set(pickerCatalog.map(m => m.url).filter(u => u && !isLocalUrl(u)))], [pickerCatalog]);
+  const loadCatalogSpecs = useCallback(()=> fetchSpecs(catalogRemoteUrls), [fetchSpecs, catalogRemoteUrls]);
+  const sizingSpecFor = useMemo(()=>{
+    const byMotor = Object.fromEntries(pickerCatalog.map(m => [m.id, isLocalUrl(m.url) ? byId(userSpecs, m.url.slice(LOCAL_PREFIX.length)) : specs[m.url]]));
+    return (id)=> byMotor[id] || undefined;
+  }, [pickerCatalog, userSpecs, specs]);
+  const pickSized = (r, v)=>{
+    setVoltage(v);
+    if(cellsOf(v)) setCells(cellsOf(v));
+    setEntries(list => {
+      const empty = list.find(e => !e.motorId);
+      return empty ? list.map(e => e === empty ? { ...e, motorId:r.motorId, propId:r.propId } : e) : [...list, newEntry(list, { motorId:r.motorId, propId:r.propId })];
+    });
+  };
+
+  // Entry editing
+  const updateEntry = (key, patch)=> setEntries(list => list.map(e => e.key === key ? { ...e, ...patch } : e));
+  const addEntry = ()=> setEntries(list => [...list, newEntry(list)]);
+  const duplicateEntry = (key)=> setEntries(list => {
+    const i = list.findIndex(e => e.key === key);
+    if(i < 0) return list;
+    const copy = newEntry(list, { motorId:list[i].motorId, propId:list[i].propId });
+    return [...list.slice(0, i+1), copy, ...list.slice(i+1)];
+  });
+  const removeEntry = (key)=> setEntries(list => list.filter(e => e.key !== key));
 
   // Series
-  const propSpecA = useMemo(()=> motorASpec ? byId(motorASpec.props, propA) : undefined, [motorASpec, propA]);
-  const propSpecB = useMemo(()=> motorBSpec ? byId(motorBSpec.props, propB) : undefined, [motorBSpec, propB]);
-  const seriesA = useMemo(()=> buildSeries(propSpecA?.data?.[voltage]), [propSpecA, voltage]);
-  const seriesB = useMemo(()=> buildSeries(propSpecB?.data?.[voltage]), [propSpecB, voltage]);
+  const rows = useMemo(()=> entries.map((e, i) => {
+    const spec = specFor(e.motorId);
+    const loadError = specErrors[urlFor(e.motorId)] || null;
+    const propSpec = spec ? byId(spec.props, e.propId) : undefined;
+    const data = propDataAt(propSpec, voltage, estimateVoltage);
+    const series = buildSeries(densityCorrected(data?.points, sigma));
+    const seaSeries = sigma === 1 ? series : buildSeries(data?.points);
+    const estFrom = data?.estFrom || null;
+    const label = (spec ? spec.name : `Motor ${i+1}`) + (propSpec ? ` • ${propSpec.name}` : '') + (estFrom ? ` (est. from ${estFrom.join('/')})` : '');
+    const massG = { motor: motorMeta(pickerCatalog.find(m => m.id === e.motorId), spec).mass_g, prop: propSpec?.mass_g };
+    return { ...e, index:i, spec, propSpec, series, seaSeries, estFrom, label, loadError, massG };
+  }), [entries, specs, specErrors, pickerCatalog, userSpecs, voltage, estimateVoltage, sigma]);
+
+  // Schema & data-quality diagnostics for each selected motor
+  const diagnostics = useMemo(()=>{
+    const seen = new Set();
+    return rows.filter(r => r.motorId && !seen.has(r.motorId) && seen.add(r.motorId)).map(r => ({
+      id: r.motorId,
+      title: r.spec?.name || pickerCatalog.find(m => m.id === r.motorId)?.name || r.motorId,
+      loadError: specIssues[urlFor(r.motorId)] ? null : r.loadError,
+      rejected: !!specIssues[urlFor(r.motorId)],
+      issues: r.spec ? [
+        ...(staleSpecs[urlFor(r.motorId)] ? [{ level:'warn', msg:`Spec url unreachable (${staleSpecs[urlFor(r.motorId)].error}); using the copy cached ${new Date(staleSpecs[urlFor(r.motorId)].at).toLocaleString()}.` }] : []),
+        ...validateSpec(r.spec),
+      ] : specIssues[urlFor(r.motorId)] || [],
+      loading: !r.spec && !r.loadError,
+    }));
+  }, [rows, pickerCatalog, staleSpecs, specIssues]);
+  const voltages = useMemo(()=>{
+    const list = voltagesIn(rows.map(r => r.spec));
+    return list.includes(voltage) ? list : [...list, voltage].sort((a,b)=> (cellsOf(a) ?? Infinity) - (cellsOf(b) ?? Infinity));
+  }, [rows, voltage]);
 
   // Mode scaling for X axis
-  const modeScale = limitMode === 'total' ? 4 : 1;
+  const modeScale = limitMode === 'total' ? motorCount : 1;
   const merged = useMemo(()=>{
-    const yScale = limitMode === 'total' ? motorCount : 1;
-    const A = seriesA.map(p=>({ x:p.x * modeScale, A:p.y * yScale, tA:p.throttle }));
-    const B = seriesB.map(p=>({ x:p.x * modeScale, B:p.y * yScale, tB:p.throttle }));
-    return [...A, ...B].sort((a,b)=>(a.x??0)-(b.x??0));
-  }, [seriesA, seriesB, modeScale, limitMode]);
+    const yScale = limitMode === 'total' ? motorCount * thrustFactor : 1;
+    // Model curve as the line, raw samples as dots
+    return rows
+      .flatMap(r => [
+        ...fitCurve(r.series, fitModel).map(p=>({ x:p.x * modeScale, [`y${r.key}`]:p.y * yScale, [`t${r.key}`]:p.throttle })),
+        ...r.series.map(p=>({ x:p.x * modeScale, [`p${r.key}`]:p.y * yScale })),
+      ])
+      .sort((a,b)=>(a.x??0)-(b.x??0));
+  }, [rows, modeScale, limitMode, motorCount, thrustFactor, fitModel]);
 
   // Limits & shading
-  const effectiveMax = useMemo(()=> limitMode==='perMotor' ? (batteryMaxA / motorCount) : batteryMaxA, [batteryMaxA, limitMode]);
-  const warnThreshold = useMemo(()=> effectiveMax * 0.8, [effectiveMax]);
+  // Battery limit as spec-sheet motor current, after ESC, wiring and avionics losses
+  const effectiveMax = useMemo(()=>{
+    const totalA = motorCurrentLimit(batteryMaxA, openPack(battery, specCells), dataVolts);
+    return limitMode==='perMotor' ? totalA / motorCount : totalA;
+  }, [batteryMaxA, battery, specCells, dataVolts, limitMode, motorCount]);
+  const warnThreshold = useMemo(()=>{
+    const totalA = motorCurrentLimit(batteryMaxA * 0.8, openPack(battery, specCells), dataVolts);
+    return limitMode==='perMotor' ? totalA / motorCount : totalA;
+  }, [batteryMaxA, battery, specCells, dataVolts, limitMode, motorCount]);
+  const escMax = escMaxA > 0 ? escMaxA * (limitMode==='perMotor' ? 1 : motorCount) : null;
   const dataMaxX = useMemo(()=> Math.max(...merged.map(d => d.x || 0), 0), [merged]);
-  const chartMaxX = useMemo(()=> Math.max(dataMaxX, (effectiveMax||0) * 1.1, (warnThreshold||0) * 1.1), [dataMaxX, effectiveMax, warnThreshold]);
-
-  // Hover & time (based on per‑motor data)
-  const perMotorLiftNeeded = useMemo(()=> takeoffKg / motorCount, [takeoffKg]);
-  const hoverA = useMemo(()=> interpolateCurrentForLift(seriesA, perMotorLiftNeeded), [seriesA, perMotorLiftNeeded]);
-  const hoverB = useMemo(()=> interpolateCurrentForLift(seriesB, perMotorLiftNeeded), [seriesB, perMotorLiftNeeded]);
-  const timeA = useMemo(()=>{
-    if(!hoverA?.ok) return null;
-    const totalCurrent = hoverA.currentA * motorCount;
-    const usableAh = capacityAh * (usablePct/100);
-    if(totalCurrent <= 0) return null;
-    return Math.min((usableAh / totalCurrent) * 60, 120);
-  }, [hoverA, capacityAh, usablePct]);
-  const timeB = useMemo(()=>{
-    if(!hoverB?.ok) return null;
-    const totalCurrent = hoverB.currentA * motorCount;
-    const usableAh = capacityAh * (usablePct/100);
-    if(totalCurrent <= 0) return null;
-    return Math.min((usableAh / totalCurrent) * 60, 120);
-  }, [hoverB, capacityAh, usablePct]);
-
-  // Weight → Flight-time curves
-  const flightCurveA = useMemo(()=> buildFlightCurve(seriesA, motorCount, capacityAh, usablePct, 40), [seriesA, motorCount, capacityAh, usablePct]);
-  const flightCurveB = useMemo(()=> buildFlightCurve(seriesB, motorCount, capacityAh, usablePct, 40), [seriesB, motorCount, capacityAh, usablePct]);
-  // Split known/est with a shared boundary point to visually connect the lines
-  const splitCurve = (curve)=>{
-    if(!curve || !curve.length) return { known:[], est:[] };
-    const known = curve.filter(d=>!d.est);
-    const est = curve.filter(d=> d.est);
-    if(known.length && est.length){
-      // First known point is the boundary (sorted in buildFlightCurve)
-      const boundary = known[0];
-      const lastEst = est[est.length-1];
-      if(!lastEst || Math.abs(lastEst.w - boundary.w) > 1e-6){
-        est.push({ ...boundary, est:true }); // duplicate boundary into est to stitch lines
-      }
-    }
-    return { known, est };
-  };
-  const { known: flightCurveA_known, est: flightCurveA_est } = useMemo(()=> splitCurve(flightCurveA), [flightCurveA]);
-  const { known: flightCurveB_known, est: flightCurveB_est } = useMemo(()=> splitCurve(flightCurveB), [flightCurveB]);
+  const chartMaxX = useMemo(()=> Math.max(dataMaxX, (effectiveMax||0) * 1.1, (warnThreshold||0) * 1.1, (escMax||0) * 1.1), [dataMaxX, effectiveMax, warnThreshold, escMax]);
+
+  // Hover & time (based on per‑motor data; coaxial loss raises the lift each motor must make)
+  const perMotorLiftNeeded = useMemo(()=> takeoffKg / (motorCount * thrustFactor), [takeoffKg, motorCount, thrustFactor]);
+  // Each slot flies its own weight when propulsion mass is added per slot
+  const hovers = useMemo(()=> rows.map(r => {
+    const propulsionKg = addPropulsion ? ((r.massG.motor || 0) + (r.massG.prop || 0)) * motorCount / 1000 : 0;
+    const slotKg = takeoffKg + propulsionKg;
+    const at = (series)=> hoverAt(series, { takeoffKg: slotKg, motorCount, thrustFactor, specCells, battery, model: fitModel });
+    return {
+      ...at(r.series), seaLevel: r.seaSeries !== r.series ? at(r.seaSeries) : null,
+      takeoffKg: slotKg, propulsionKg,
+      missingMass: addPropulsion && r.spec && r.propSpec ? ['motor', 'prop'].filter(k => r.massG[k] == null) : [],
+    };
+  }), [rows, takeoffKg, addPropulsion, motorCount, thrustFactor, specCells, battery, fitModel]);
+  const slotTakeoffKgs = useMemo(()=> hovers.map(h => h.takeoffKg), [hovers]);
+
+  // Safety checks
+  const [safetyThresholds, setSafetyThresholds] = useState(loadSafetyThresholds);
+  useEffect(()=>{ try{ localStorage.setItem(SAFETY_KEY, JSON.stringify(safetyThresholds)); }catch{ /* storage disabled */ } }, [safetyThresholds]);
+  const safety = useMemo(()=> rows.map((r, i) => evaluateSafety(
+    { series:r.series, hover:hovers[i].hover, layout, motorCount, thrustFactor, takeoffKg:hovers[i].takeoffKg, batteryMaxA, battery, specCells },
+    safetyThresholds,
+  )), [rows, hovers, layout, motorCount, thrustFactor, batteryMaxA, battery, specCells, safetyThresholds]);
+
+  // Weight → Flight-time curves, split known/est with a shared boundary point to visually connect the lines
+  const flightCurves = useMemo(()=> rows.map(r => {
+    const curve = buildFlightCurve(r.series, motorCount, thrustFactor, specCells, battery, 40, fitModel)
+      .map(d => r.estFrom ? { ...d, est:true } : d); // a voltage-estimated curve is estimated throughout
+    return { curve, ...splitCurve(curve) };
+  }), [rows, motorCount, thrustFactor, specCells, battery, fitModel]);
   const weightMax = useMemo(()=> Math.max(
-    ...(flightCurveA.map(d=>d.w)),
-    ...(flightCurveB.map(d=>d.w)),
-    takeoffKg || 0,
+    ...flightCurves.flatMap(c => c.curve.map(d=>d.w)),
+    ...hovers.map(h => h.takeoffKg || 0),
     0
-  ), [flightCurveA, flightCurveB, takeoffKg]);
+  ), [flightCurves, hovers]);
   const timeMax = 120; // hard cap axis at 2 hours to avoid runaway scales
 
+  // Capacity → Flight-time curves with pack mass in the loop (derived-weight mode only)
+  const capacityCurves = useMemo(()=>{
+    if(massMode !== 'derived') return [];
+    const maxCap = Math.max(capacityAh * 4, 10);
+    return rows.map((r, i) => {
+      const curve = buildCapacityCurve(r.series, motorCount, thrustFactor, specCells, battery, dryKg + payloadKg + hovers[i].propulsionKg, kgPerAh, maxCap, fitModel)
+        .map(d => r.estFrom ? { ...d, est:true } : d);
+      return { curve, best: curveOptimum(curve), ...splitCurve(curve, 'cap') };
+    });
+  }, [massMode, rows, hovers, motorCount, thrustFactor, specCells, battery, dryKg, payloadKg, kgPerAh, capacityAh, fitModel]);
+
+  // Exports & report
+  const powerChartRef = useRef(null);
+  const flightChartRef = useRef(null);
+  const [report, setReport] = useState(null); // { charts } while the report is open
+  const batteryLabel = `${cells}S ${byId(CHEMISTRIES, chemistry)?.name} ${capacityAh} Ah (${packWh.toFixed(0)} Wh)`;
+  const powerCurvesCsv = ()=> toCsv(
+    [limitMode === 'total' ? 'total_current_a' : 'current_per_motor_a', ...rows.flatMap(r => [`${r.label} lift_kg`, `${r.label} throttle_pct`, `${r.label} measured_lift_kg`])],
+    merged.map(d => [d.x, ...rows.flatMap(r => [d[`y${r.key}`], d[`t${r.key}`], d[`p${r.key}`]])]),
+  );
+  const flightCurvesCsv = ()=> toCsv(
+    ['entry', 'motor', 'prop', 'takeoff_weight_kg', 'flight_time_min', 'estimated'],
+    rows.flatMap((r, i) => flightCurves[i].curve.map(d => [r.index + 1, r.spec?.name, r.propSpec?.name, d.w, d.t, d.est ? 1 : 0])),
+  );
+  const openReport = ()=> setReport({ charts: [
+    { title:'Power Curves', svg: chartSvgText(powerChartRef.current, rows) },
+    { title:'Flight Time vs Takeoff Weight', svg: chartSvgText(flightChartRef.current, rows) },
+  ] });
+
   // ================= Render =================
   return (
-    <div className="min-h-screen bg-gray-50 p-6 space-y-6">
+    <>
+    {report && (
+      <ReportView
+        rows={rows} hovers={hovers} charts={report.charts}
+        limitMode={limitMode} motorCount={motorCount} thrustFactor={thrustFactor}
+        setup={{
+          layout: layout.coaxial ? `${layout.name}, ${coaxLossPct}% lower-prop loss` : layout.name,
+          takeoffKg, perMotorLiftKg: perMotorLiftNeeded, addPropulsion, voltage: estimateVoltage ? `${voltage} (estimates allowed)` : voltage,
+          battery: `${batteryLabel}, ${irMohm} mΩ/cell`, usablePct, batteryMaxA,
+          powertrain: `${escEffPct}% ESC efficiency, ${wiringMohm} mΩ wiring, ${auxLoad} ${auxUnit} avionics${escMaxA ? `, ${escMaxA} A ESCs` : ''}`,
+          fitModel: byId(FIT_MODELS, fitModel)?.name,
+          environment: envCorrect ? `${elevationM} m, ${tempC} °C${humidityPct ? `, ${humidityPct}% RH` : ''} (ρ = ${airRho.toFixed(3)} kg/m³)` : 'Sea level (as published)',
+        }}
+        onClose={()=>setReport(null)}
+      />
+    )}
+    <div className={`min-h-screen bg-gray-50 p-6 space-y-6 ${report ? 'print:hidden' : ''}`}>
       <header>
         <h1 className="text-2xl font-bold">Motor Power Curve Compare</h1>
-        {catError && <p className="text-red-600 text-sm">Catalog load failed: {catError}</p>}
         <div className="mt-2 flex gap-2 items-center">
-          <input type="url" placeholder="https://.../index.json" className="flex-1 border rounded px-2 py-1 text-sm" value={tempCatalogUrl} onChange={e=>setTempCatalogUrl(e.target.value)} />
-          <button className="px-3 py-1 rounded bg-gray-800 text-white text-sm" onClick={()=>setCatalogUrl(tempCatalogUrl)}>Load catalog</button>
-          <button className="px-3 py-1 rounded bg-gray-200 text-sm" onClick={()=>{setTempCatalogUrl('./motors/index.json'); setCatalogUrl('./motors/index.json');}}>Reset</button>
+          <input type="url" placeholder="https://.../index.json" className="flex-1 border rounded px-2 py-1 text-sm" value={tempCatalogUrl} onChange={e=>setTempCatalogUrl(e.target.value)} onKeyDown={e=>{ if(e.key === 'Enter') addCatalogSource(tempCatalogUrl); }} />
+          <button className="px-3 py-1 rounded bg-gray-800 text-white text-sm" onClick={()=>addCatalogSource(tempCatalogUrl)}>Add catalog</button>
+          <button className="px-3 py-1 rounded bg-gray-200 text-sm" onClick={()=>{ setTempCatalogUrl(''); setCatalogUrls([BUNDLED_CATALOG]); }}>Reset</button>
+          <button className="px-3 py-1 rounded bg-gray-200 text-sm" onClick={()=>setShowBrowser(v=>!v)}>{showBrowser ? 'Close browser' : 'Browse'}</button>
+          <button className="px-3 py-1 rounded bg-gray-200 text-sm" onClick={()=>setShowSizing(v=>!v)}>{showSizing ? 'Close sizing' : 'Sizing'}</button>
+          <button className="px-3 py-1 rounded bg-gray-200 text-sm" onClick={()=>setShowMission(v=>!v)}>{showMission ? 'Close mission' : 'Mission'}</button>
+          <button className="px-3 py-1 rounded bg-gray-200 text-sm" onClick={openReport}>Report</button>
+          <button className="px-3 py-1 rounded bg-gray-200 text-sm" onClick={()=>setShowSessions(v=>!v)}>{showSessions ? 'Close sessions' : 'Sessions'}</button>
+          <button className="px-3 py-1 rounded bg-gray-200 text-sm" onClick={()=>setShowEditor(v=>!v)}>{showEditor ? 'Close editor' : `Edit local motors${userSpecs.length ? ` (${userSpecs.length})` : ''}`}</button>
         </div>
-        <p className="text-xs text-gray-500 mt-1">Catalog URL: <code>{normalizeCatalogUrl(catalogUrl)}</code></p>
+        <ul className="mt-2 flex flex-wrap gap-2 text-xs">
+          {catalogUrls.map(url => {
+            const s = catalogSources[url] || { status:'loading', label: sourceLabel(url) };
+            return (
+              <li key={url} className={`flex items-center gap-1 px-2 py-1 rounded ${s.status === 'error' ? 'bg-red-100 text-red-800' : s.stale ? 'bg-amber-100 text-amber-800' : 'bg-gray-100'}`} title={normalizeCatalogUrl(url)}>
+                <b>{s.label}</b>
+                <span>{s.status === 'loading' ? 'loading…' : s.status === 'error' ? `failed: ${s.error}` : `${s.list.length} motors${s.stale ? ' (cached copy)' : ''}`}</span>
+                {s.status !== 'loading' && <button className="px-1 hover:underline" onClick={()=>reloadCatalogSource(url)}>reload</button>}
+                <button className="px-1" title="Remove source" onClick={()=>removeCatalogSource(url)}>✕</button>
+              </li>
+            );
+          })}
+          {userSpecs.length > 0 && <li className="px-2 py-1 rounded bg-gray-100"><b>Local</b> {userSpecs.length} motors</li>}
+        </ul>
         <p className="text-xs text-amber-700 mt-1">Tip: Paste a GitHub URL; I’ll auto-convert to raw.</p>
       </header>
 
+      {showSessions && <SessionsPanel session={session} onLoad={applySession} />}
+
+      {showBrowser && (
+        <MotorBrowser
+          catalog={pickerCatalog} specFor={sizingSpecFor} loadAll={loadCatalogSpecs}
+          loaded={{ done: catalogRemoteUrls.filter(u => specs[u] !== undefined).length, total: catalogRemoteUrls.length }}
+          onPick={pickSized}
+        />
+      )}
+
+      {showSizing && (
+        <SizingPanel
+          catalog={pickerCatalog} specFor={sizingSpecFor} loadAll={loadCatalogSpecs}
+          loaded={{ done: catalogRemoteUrls.filter(u => specs[u] !== undefined).length, total: catalogRemoteUrls.length }}
+          voltages={voltagesIn(pickerCatalog.map(m => sizingSpecFor(m.id)))} defaultVoltage={voltage} estimateVoltage={estimateVoltage}
+          layout={layout} motorCount={motorCount} thrustFactor={thrustFactor} battery={battery} fitModel={fitModel} sigma={sigma} addPropulsion={addPropulsion}
+          onPick={pickSized}
+        />
+      )}
+
+      {showMission && (
+        <MissionPanel
+          rows={rows} segments={missionSegments} setSegments={setMissionSegments}
+          layout={layout} motorCount={motorCount} thrustFactor={thrustFactor} specCells={specCells} battery={battery}
+          takeoffKgs={slotTakeoffKgs} batteryMaxA={batteryMaxA} fitModel={fitModel}
+        />
+      )}
+
+      {showEditor && (
+        <SpecEditor
+          userSpecs={userSpecs}
+          setUserSpecs={setUserSpecs}
+          sourceSpecs={Object.values(specs).filter(Boolean)}
+          defaultVoltage={voltage}
+        />
+      )}
+
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
         {/* Left column */}
         <section className="space-y-6 xl:col-span-1">
           {/* Voltage */}
           <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3">
             <h2 className="text-lg font-semibold">Voltage</h2>
-            <div className="flex items-center gap-4">
-              <label className="inline-flex items-center gap-2">
-                <input type="radio" name="volt" value="6S" checked={voltage==='6S'} onChange={()=>setVoltage('6S')} /> 6S
+            <div className="flex flex-wrap items-center gap-4">
+              {voltages.map(v => (
+                <label key={v} className="inline-flex items-center gap-2">
+                  <input type="radio" name="volt" value={v} checked={voltage===v} onChange={()=>{setVoltage(v); if(cellsOf(v)) setCells(cellsOf(v));}} /> {v}
+                </label>
+              ))}
+            </div>
+            <label className="inline-flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={estimateVoltage} onChange={e=>setEstimateVoltage(e.target.checked)} /> Estimate voltages without data (RPM ∝ V)
+            </label>
+            {estimateVoltage && (
+              <label className="text-sm flex items-center gap-2">Pack voltage
+                <input type="number" step="1" min="1" className="border rounded px-2 py-1 w-20" value={cellsOf(voltage) ?? ''} onChange={e=>{ const n = Number(e.target.value); if(n > 0){ setVoltage(`${n}S`); setCells(n); } }} /> S
               </label>
-              <label className="inline-flex items-center gap-2">
-                <input type="radio" name="volt" value="12S" checked={voltage==='12S'} onChange={()=>setVoltage('12S')} /> 12S
+            )}
+            {rows.some(r => r.estFrom) && <p className="text-xs text-amber-700">Orange dashed power curves are <b>estimated</b> from other voltages: thrust and current scaled by (V/V<sub>measured</sub>)² at each throttle.</p>}
+          </div>
+
+          {/* Environment */}
+          <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3">
+            <h2 className="text-lg font-semibold">Environment</h2>
+            <label className="inline-flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={envCorrect} onChange={e=>setEnvCorrect(e.target.checked)} /> Correct spec data for air density
+            </label>
+            <div className="grid grid-cols-3 gap-3">
+              <label className="text-sm">Elevation (m)
+                <input type="number" step="100" className="mt-1 border rounded px-2 py-1 w-full" value={elevationM} onChange={e=>setElevationM(Number(e.target.value)||0)} />
+              </label>
+              <label className="text-sm">Temperature (°C)
+                <input type="number" step="1" className="mt-1 border rounded px-2 py-1 w-full" value={tempC} onChange={e=>setTempC(Number(e.target.value)||0)} />
+              </label>
+              <label className="text-sm">Humidity (%)
+                <input type="number" step="5" min="0" max="100" placeholder="dry" className="mt-1 border rounded px-2 py-1 w-full" value={humidityPct || ''} onChange={e=>setHumidityPct(Math.min(Math.max(Number(e.target.value)||0, 0), 100))} />
               </label>
             </div>
+            <p className="text-xs text-gray-600">
+              Air density <b>{airRho.toFixed(3)} kg/m³</b> ({(airRho / SEA_LEVEL_RHO * 100).toFixed(1)}% of sea level) • density altitude <b>{Math.round(densityAltitude(airRho))} m</b>
+              {envCorrect ? '. Thrust and current are scaled by the density ratio at each throttle; hover cards show sea-level values alongside.' : '. Spec data is used as published (sea level).'}
+            </p>
           </div>
 
-          {/* Motor A */}
+          {/* Comparison entries */}
+          {rows.map(r => (
+            <div key={r.key} className="p-4 bg-white rounded-2xl shadow-sm space-y-3">
+              <div className="flex items-center gap-2">
+                <input type="color" title="Line color" className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" value={r.color} onChange={e=>updateEntry(r.key, { color:e.target.value })} />
+                <h2 className="text-lg font-semibold flex-1">Motor {r.index + 1}</h2>
+                <button className="px-2 py-0.5 rounded bg-gray-200 text-xs" onClick={()=>duplicateEntry(r.key)}>Duplicate</button>
+                <button className="px-2 py-0.5 rounded bg-gray-200 text-xs disabled:opacity-50" disabled={rows.length <= 1} onClick={()=>removeEntry(r.key)}>Remove</button>
+              </div>
+              <MotorPropPicker catalog={pickerCatalog} motorId={r.motorId} setMotorId={id=>updateEntry(r.key, { motorId:id })} motorSpec={r.spec} prop={r.propId} setProp={id=>updateEntry(r.key, { propId:id })} voltage={voltage} estimateVoltage={estimateVoltage} />
+            </div>
+          ))}
+          <button className="w-full px-3 py-2 rounded-2xl border-2 border-dashed border-gray-300 text-sm text-gray-600 hover:bg-white" onClick={addEntry}>+ Add motor/prop to compare</button>
+
+          {/* Data quality */}
           <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3">
-            <h2 className="text-lg font-semibold">Motor A</h2>
-            <MotorPropPicker catalog={catalog} motorId={motorAId} setMotorId={setMotorAId} motorSpec={motorASpec} prop={propA} setProp={setPropA} voltage={voltage} />
+            <h2 className="text-lg font-semibold">Data quality</h2>
+            <DiagnosticsPanel catalogs={catalogDiagnostics} items={diagnostics} />
           </div>
 
-          {/* Motor B */}
+          {/* Curve fit */}
           <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3">
-            <h2 className="text-lg font-semibold">Motor B</h2>
-            <MotorPropPicker catalog={catalog} motorId={motorBId} setMotorId={setMotorBId} motorSpec={motorBSpec} prop={propB} setProp={setPropB} voltage={voltage} />
+            <h2 className="text-lg font-semibold">Curve fit</h2>
+            <CurveFitPanel rows={rows} fitModel={fitModel} setFitModel={setFitModel} />
           </div>
 
           {/* Flight-time & Battery */}
           <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3">
             <h2 className="text-lg font-semibold">Flight‑time & Battery</h2>
             <div className="grid grid-cols-2 gap-3">
-              <label className="text-sm">Takeoff weight (kg)
-                <input type="number" step="0.1" className="mt-1 border rounded px-2 py-1 w-full" value={takeoffKg} onChange={e=>setTakeoffKg(Number(e.target.value)||0)} />
+              <label className="text-sm">{addPropulsion ? 'Takeoff weight w/o motors & props (kg)' : 'Takeoff weight (kg)'}
+                {massMode === 'derived'
+                  ? <input type="number" className="mt-1 border rounded px-2 py-1 w-full bg-gray-100" value={takeoffKg.toFixed(2)} readOnly title="Airframe + payload + battery" />
+                  : <input type="number" step="0.1" className="mt-1 border rounded px-2 py-1 w-full" value={takeoffKg} onChange={e=>setTakeoffKg(Number(e.target.value)||0)} />}
               </label>
               <label className="text-sm">Battery capacity (Ah)
                 <input type="number" step="0.1" className="mt-1 border rounded px-2 py-1 w-full" value={capacityAh} onChange={e=>setCapacityAh(Number(e.target.value)||0)} />
@@ -391,13 +2313,85 @@ export default function App(){
               <label className="text-sm">Usable %
                 <input type="number" step="1" className="mt-1 border rounded px-2 py-1 w-full" value={usablePct} onChange={e=>setUsablePct(Number(e.target.value)||0)} />
               </label>
-              <label className="text-sm">Motors
-                <input type="number" className="mt-1 border rounded px-2 py-1 w-full bg-gray-100" value={motorCount} readOnly />
+              <label className="text-sm">Cells (S)
+                <input type="number" step="1" min="1" className="mt-1 border rounded px-2 py-1 w-full" value={cells} onChange={e=>setCells(Number(e.target.value)||0)} />
+              </label>
+              <label className="text-sm">Chemistry
+                <select className="mt-1 border rounded px-2 py-1 w-full" value={chemistry} onChange={e=>{setChemistry(e.target.value); setIrMohm(byId(CHEMISTRIES, e.target.value)?.irMohm ?? irMohm);}}>
+                  {CHEMISTRIES.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+              </label>
+              <label className="text-sm">Cell resistance (mΩ)
+                <input type="number" step="0.5" min="0" className="mt-1 border rounded px-2 py-1 w-full" value={irMohm} onChange={e=>setIrMohm(Number(e.target.value)||0)} />
               </label>
-              <label className="text-sm col-span-2">Battery max current (A)
+              <label className="text-sm">Frame layout
+                <select className="mt-1 border rounded px-2 py-1 w-full" value={layoutId} onChange={e=>setLayoutId(e.target.value)}>
+                  {FRAME_LAYOUTS.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </label>
+              {layout.coaxial && (
+                <label className="text-sm col-span-2">Coaxial lower-prop thrust loss (%)
+                  <input type="number" step="1" min="0" max="100" className="mt-1 border rounded px-2 py-1 w-full" value={coaxLossPct} onChange={e=>setCoaxLossPct(Number(e.target.value)||0)} />
+                </label>
+              )}
+              <label className="text-sm">Battery max current (A)
                 <input type="number" step="1" className="mt-1 border rounded px-2 py-1 w-full" value={batteryMaxA} onChange={e=>setBatteryMaxA(Number(e.target.value)||0)} />
               </label>
+              <label className="text-sm">ESC rated current / motor (A)
+                <input type="number" step="1" min="0" className="mt-1 border rounded px-2 py-1 w-full" placeholder="not set" value={escMaxA || ''} onChange={e=>setEscMaxA(Number(e.target.value)||0)} />
+              </label>
+              <label className="text-sm">ESC efficiency (%)
+                <input type="number" step="1" min="1" max="100" className="mt-1 border rounded px-2 py-1 w-full" value={escEffPct} onChange={e=>{ const v = e.target.valueAsNumber; setEscEffPct(Math.min(Math.max(Number.isFinite(v) ? v : 100, 1), 100)); }} />
+              </label>
+              <label className="text-sm">Wiring & connectors (mΩ)
+                <input type="number" step="0.5" min="0" className="mt-1 border rounded px-2 py-1 w-full" value={wiringMohm} onChange={e=>setWiringMohm(Number(e.target.value)||0)} />
+              </label>
+              <label className="text-sm col-span-2">Avionics & payload load
+                <div className="mt-1 flex gap-2">
+                  <input type="number" step="0.5" min="0" className="border rounded px-2 py-1 w-full" value={auxLoad} onChange={e=>setAuxLoad(Number(e.target.value)||0)} />
+                  <select className="border rounded px-2 py-1" value={auxUnit} onChange={e=>setAuxUnit(e.target.value)}>
+                    <option value="W">W</option>
+                    <option value="A">A</option>
+                  </select>
+                </div>
+              </label>
             </div>
+            <label className="inline-flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={massMode === 'derived'} onChange={e=>setMassMode(e.target.checked ? 'derived' : 'direct')} /> Derive takeoff weight from battery mass
+            </label>
+            <label className="inline-flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={addPropulsion} onChange={e=>setAddPropulsion(e.target.checked)} /> Weight excludes motors & props (add each slot's spec masses)
+            </label>
+            {massMode === 'derived' && (
+              <div className="grid grid-cols-2 gap-3 bg-gray-50 rounded p-2">
+                <label className="text-sm">Airframe w/o battery (kg)
+                  <input type="number" step="0.1" className="mt-1 border rounded px-2 py-1 w-full" value={dryKg} onChange={e=>setDryKg(Number(e.target.value)||0)} />
+                </label>
+                <label className="text-sm">Payload (kg)
+                  <input type="number" step="0.1" className="mt-1 border rounded px-2 py-1 w-full" value={payloadKg} onChange={e=>setPayloadKg(Number(e.target.value)||0)} />
+                </label>
+                <label className="text-sm">Pack density
+                  <select className="mt-1 border rounded px-2 py-1 w-full" value={densityMode} onChange={e=>setDensityMode(e.target.value)}>
+                    <option value="whkg">Wh/kg</option>
+                    <option value="gah">g per Ah</option>
+                  </select>
+                </label>
+                {densityMode === 'whkg' ? (
+                  <label className="text-sm">Specific energy (Wh/kg)
+                    <input type="number" step="5" className="mt-1 border rounded px-2 py-1 w-full" value={whPerKg} onChange={e=>setWhPerKg(Number(e.target.value)||0)} />
+                  </label>
+                ) : (
+                  <label className="text-sm">Mass (g/Ah) at
+                    <span className="flex gap-1 mt-1">
+                      <input type="number" step="5" className="border rounded px-2 py-1 w-full" value={gPerAh} onChange={e=>setGPerAh(Number(e.target.value)||0)} />
+                      <input type="number" step="1" className="border rounded px-2 py-1 w-16" value={gPerAhCells} onChange={e=>setGPerAhCells(Number(e.target.value)||0)} title="Cell count the g/Ah figure is for" />
+                      <span className="self-center">S</span>
+                    </span>
+                  </label>
+                )}
+                <p className="col-span-2 text-xs text-gray-600">Pack: <b>{packKg.toFixed(2)} kg</b> ({(kgPerAh*1000).toFixed(0)} g/Ah at {cells}S) → takeoff <b>{takeoffKg.toFixed(2)} kg</b></p>
+              </div>
+            )}
             <div className="flex gap-4 mt-2">
               <label className="inline-flex items-center gap-2">
                 <input type="radio" name="limit" value="perMotor" checked={limitMode==='perMotor'} onChange={()=>setLimitMode('perMotor')} /> Per motor
@@ -406,48 +2400,51 @@ export default function App(){
                 <input type="radio" name="limit" value="total" checked={limitMode==='total'} onChange={()=>setLimitMode('total')} /> Whole drone
               </label>
             </div>
-            <p className="text-xs text-gray-500">Shading shows yellow ≥ 80% and red ≥ 100% of the selected current limit.</p>
+            <p className="text-xs text-gray-500">Shading shows yellow ≥ 80% and red ≥ 100% of the battery current limit, converted to motor current through the power train below. The violet band marks 80–100% of the ESC rating.</p>
+            <p className="text-xs text-gray-500">Flight time steps the pack down its discharge curve: as voltage sags under load the current rises to hold the same power, until the usable % or the loaded cutoff ({byId(CHEMISTRIES, chemistry)?.cutoffV} V/cell) is reached.</p>
 
             {/* Hover summary */}
             <div className="space-y-3 pt-2">
               <h3 className="text-base font-semibold">Drone Specs</h3>
-              <p className="text-sm text-gray-600">Required per‑motor lift: <b>{(takeoffKg / motorCount).toFixed(3)} kg</b></p>
-              {/* Totals per motor variant */}
+              <p className="text-sm text-gray-600">Required per‑motor lift: <b>{addPropulsion ? [...new Set(rows.flatMap((r, i) => r.series.length ? [hovers[i].liftKg.toFixed(3)] : []))].join(' / ') || perMotorLiftNeeded.toFixed(3) : perMotorLiftNeeded.toFixed(3)} kg</b>{layout.coaxial ? ` (${motorCount} motors, ${coaxLossPct}% lower-prop loss)` : ` (${motorCount} motors)`}</p>
+              {/* Totals per comparison entry */}
               <div className="grid grid-cols-2 gap-3 text-sm">
-                <div className="bg-gray-50 rounded p-2">
-                  <div className="font-medium">Motor A totals</div>
-                  <TotalsDisplay series={seriesA} motorCount={motorCount} />
-                </div>
-                <div className="bg-gray-50 rounded p-2">
-                  <div className="font-medium">Motor B totals</div>
-                  <TotalsDisplay series={seriesB} motorCount={motorCount} />
-                </div>
+                {rows.map(r => (
+                  <div key={r.key} className="bg-gray-50 rounded p-2 border-l-4" style={{ borderColor:r.color }}>
+                    <div className="font-medium">Motor {r.index + 1} totals</div>
+                    <TotalsDisplay series={r.series} motorCount={motorCount} thrustFactor={thrustFactor} />
+                  </div>
+                ))}
               </div>
-              <HoverCard title="Motor A (hover)" hover={hoverA} timeMin={timeA} limitMode={limitMode} />
-              <HoverCard title="Motor B (hover)" hover={hoverB} timeMin={timeB} limitMode={limitMode} />
+              {rows.map((r, i) => (
+                <HoverCard key={r.key} title={`Motor ${r.index + 1} (hover)`} hover={hovers[i].hover} flight={hovers[i].flight} tw={hovers[i].tw} gpw={hovers[i].gpw} seaLevel={hovers[i].seaLevel} slot={addPropulsion && r.series.length ? hovers[i] : null} limitMode={limitMode} motorCount={motorCount} estFrom={r.estFrom} loadError={r.loadError} />
+              ))}
               <p className="text-xs text-gray-500">* If shown, spec sheet doesn’t include data that low; displayed at the lowest listed throttle, so actual time would be longer.</p>
             </div>
             <p className="mt-2 text-xs text-amber-700">Orange segments indicate <b>estimated</b> performance below the lowest thrust data in the spec sheet. We extrapolate using a power‑law fit from the first two real points and cap times at 120&nbsp;min. Treat as indicative only.</p>
           </div>
+
+          {/* Safety */}
+          <div className="p-4 bg-white rounded-2xl shadow-sm space-y-3">
+            <h2 className="text-lg font-semibold">Safety checks</h2>
+            <SafetyPanel rows={rows} results={safety} thresholds={safetyThresholds} setThresholds={setSafetyThresholds} />
+          </div>
         </section>
 
         {/* Right column: charts */}
         <section className="xl:col-span-2 space-y-6">
           {/* Power Curves */}
-          <div className="p-4 bg-white rounded-2xl shadow-sm">
-            <div className="flex items-center justify-between mb-2">
+          <div className="p-4 bg-white rounded-2xl shadow-sm" ref={powerChartRef}>
+            <div className="flex items-center justify-between gap-4 mb-2">
               <h2 className="text-xl font-semibold">Power Curves</h2>
-              <LegendInline
-                specA={motorASpec}
-                propA={byId(motorASpec?.props, propA)}
-                specB={motorBSpec}
-                propB={byId(motorBSpec?.props, propB)}
-              />
+              <LegendInline rows={rows} />
             </div>
+            <ChartExport targetRef={powerChartRef} name="power-curves" csv={powerCurvesCsv} legend={rows} />
             <div className="flex items-center gap-3 mb-2 text-sm">
-              <span className="px-2 py-1 rounded bg-gray-100">Mode: {limitMode === 'total' ? 'Whole drone (×4)' : 'Per motor'}</span>
+              <span className="px-2 py-1 rounded bg-gray-100">Mode: {limitMode === 'total' ? `Whole drone (×${motorCount})` : 'Per motor'}</span>
               <span className="px-2 py-1 rounded bg-gray-100">Warn ≥ {Math.round(warnThreshold)} A{limitMode==='total'?' total':' per motor'}</span>
               <span className="px-2 py-1 rounded bg-gray-100">Max = {Math.round(effectiveMax)} A{limitMode==='total'?' total':' per motor'}</span>
+              {escMax != null && <span className="px-2 py-1 rounded bg-violet-100">ESC warn ≥ {Math.round(escMax * 0.8)} A • max {Math.round(escMax)} A</span>}
             </div>
             <div className="h-[560px]">
               <ResponsiveContainer width="100%" height="100%">
@@ -456,39 +2453,91 @@ export default function App(){
                   {/* Current limit shading */}
                   {Number.isFinite(effectiveMax) && Number.isFinite(warnThreshold) && (
                     <>
-                      <ReferenceArea x1={Math.max(warnThreshold, 0)} x2={Math.min(effectiveMax, chartMaxX)} y1={-Infinity} y2={Infinity} ifOverflow="extendDomain" fill="#facc15" fillOpacity={0.25} strokeOpacity={0} />
-                      <ReferenceArea x1={Math.max(effectiveMax, 0)} x2={chartMaxX} y1={-Infinity} y2={Infinity} ifOverflow="extendDomain" fill="#ef4444" fillOpacity={0.25} strokeOpacity={0} />
+                      <ReferenceArea yAxisId="left" x1={Math.max(warnThreshold, 0)} x2={Math.min(effectiveMax, chartMaxX)} y1={-Infinity} y2={Infinity} ifOverflow="extendDomain" fill="#facc15" fillOpacity={0.25} strokeOpacity={0} />
+                      <ReferenceArea yAxisId="left" x1={Math.max(effectiveMax, 0)} x2={chartMaxX} y1={-Infinity} y2={Infinity} ifOverflow="extendDomain" fill="#ef4444" fillOpacity={0.25} strokeOpacity={0} />
+                    </>
+                  )}
+                  {/* ESC rating (warn band, then over the rating), outlined so it reads over the battery shading */}
+                  {escMax != null && (
+                    <>
+                      <ReferenceArea yAxisId="left" x1={escMax * 0.8} x2={Math.min(escMax, chartMaxX)} y1={-Infinity} y2={Infinity} ifOverflow="extendDomain" fill="#a78bfa" fillOpacity={0.2} stroke="#7c3aed" strokeOpacity={0.5} strokeDasharray="4 4" />
+                      <ReferenceArea yAxisId="left" x1={escMax} x2={chartMaxX} y1={-Infinity} y2={Infinity} ifOverflow="extendDomain" fill="#7c3aed" fillOpacity={0.25} stroke="#7c3aed" strokeOpacity={0.5} strokeDasharray="4 4" />
+                      <ReferenceLine yAxisId="left" x={escMax} stroke="#7c3aed" strokeDasharray="4 4" label={{ value: 'ESC max', position: 'insideTopLeft', fill: '#7c3aed' }} />
                     </>
                   )}
                   <XAxis type="number" dataKey="x" name="Current" unit=" A" label={{ value: (limitMode==='total' ? 'Total Current (A)' : 'Current per Motor (A)'), position: 'insideBottom', offset: -5 }} domain={[0, chartMaxX]} />
-                  <YAxis type="number" yAxisId="left" dataKey="A" name="Lift" unit=" kg" label={{ value: (limitMode==='total' ? 'Lift (kg) • Total' : 'Lift (kg) • Per motor'), angle: -90, position: "insideLeft" }} domain={["auto","auto"]} />
-                  <YAxis type="number" yAxisId="right" orientation="right" dataKey="B" name="Lift" unit=" kg" hide />
-                  <Tooltip content={<HoverTip mode={limitMode} propAName={byId(motorASpec?.props, propA)?.name} propBName={byId(motorBSpec?.props, propB)?.name} />} />
-                  <Line connectNulls yAxisId="left" type="monotone" dataKey="A" name={(motorASpec?.name||'A') + (byId(motorASpec?.props, propA) ? ` • ${byId(motorASpec?.props, propA)?.name}` : '')} dot={false} strokeWidth={2} stroke="#2563eb" />
-                  <Line connectNulls yAxisId="left" type="monotone" dataKey="B" name={(motorBSpec?.name||'B') + (byId(motorBSpec?.props, propB) ? ` • ${byId(motorBSpec?.props, propB)?.name}` : '')} dot={false} strokeWidth={2} stroke="#16a34a" />
+                  <YAxis type="number" yAxisId="left" name="Lift" unit=" kg" label={{ value: (limitMode==='total' ? 'Lift (kg) • Total' : 'Lift (kg) • Per motor'), angle: -90, position: "insideLeft" }} domain={["auto","auto"]} />
+                  <Tooltip content={<HoverTip mode={limitMode} rows={rows} />} />
+                  {rows.map(r => (
+                    <Line key={r.key} connectNulls yAxisId="left" type="linear" dataKey={`y${r.key}`} name={r.label} dot={false} strokeWidth={2} stroke={r.estFrom ? '#f59e0b' : r.color} strokeDasharray={r.estFrom ? '6 3' : undefined} />
+                  ))}
+                  {rows.map(r => (
+                    <Line key={`${r.key}-pts`} yAxisId="left" dataKey={`p${r.key}`} name={`${r.label} • measured`} stroke="none" legendType="none" isAnimationActive={false}
+                      dot={{ r:3, fill: r.estFrom ? '#fff' : r.color, stroke: r.estFrom ? '#f59e0b' : r.color }} activeDot={false} />
+                  ))}
                 </LineChart>
               </ResponsiveContainer>
             </div>
           </div>
 
+          {/* Flight Time vs Battery Capacity */}
+          {massMode === 'derived' && (
+            <div className="p-4 bg-white rounded-2xl shadow-sm">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-semibold">Flight Time vs Battery Capacity</h2>
+                <div className="text-sm text-gray-600">{(dryKg + payloadKg).toFixed(2)} kg + {(kgPerAh*1000).toFixed(0)} g/Ah pack</div>
+              </div>
+              <div className="h-[420px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="cap" unit=" Ah" domain={[0, 'dataMax']} label={{ value: 'Battery capacity (Ah)', position: 'insideBottom', offset: -5 }} />
+                    <YAxis type="number" unit=" min" domain={[0, 'auto']} label={{ value: 'Flight Time (min)', angle: -90, position: 'insideLeft' }} />
+                    <Tooltip formatter={(value, name)=>[Number(value).toFixed(1)+' min', name]} labelFormatter={(label)=>`Capacity: ${Number(label).toFixed(1)} Ah`} />
+                    <ReferenceLine x={capacityAh} stroke="#334155" strokeDasharray="4 4" label={{ value: `Current pack (${capacityAh} Ah)`, position: 'top' }} />
+                    {rows.flatMap((r, i) => [
+                      <Line key={`${r.key}-known`} type="monotone" dataKey="t" name={(r.spec?.name || `Motor ${r.index + 1}`) + ' • time'} data={capacityCurves[i].known} dot={false} strokeWidth={2} stroke={r.color} />,
+                      <Line key={`${r.key}-est`} type="monotone" dataKey="t" name={(r.spec?.name || `Motor ${r.index + 1}`) + ' • time (est)'} data={capacityCurves[i].est} dot={false} strokeWidth={2} stroke="#f59e0b" />,
+                    ])}
+                    {rows.map((r, i) => capacityCurves[i].best && (
+                      <ReferenceDot key={r.key} x={capacityCurves[i].best.cap} y={capacityCurves[i].best.t} r={5} fill={r.color} stroke="#fff" strokeWidth={2} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <ul className="mt-2 text-sm space-y-0.5">
+                {rows.map((r, i) => capacityCurves[i].best && (
+                  <li key={r.key}><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ background:r.color }} />{r.label}: best <b>{capacityCurves[i].best.t.toFixed(1)} min</b> at <b>{capacityCurves[i].best.cap.toFixed(1)} Ah</b> ({capacityCurves[i].best.takeoff.toFixed(2)} kg takeoff){capacityCurves[i].best.est ? '*' : ''}</li>
+                ))}
+              </ul>
+              <p className="mt-1 text-xs text-gray-500">Each point re-solves hover at the takeoff weight that pack implies; curves stop where the motors can no longer lift it. Times here are not capped at 120 min.</p>
+            </div>
+          )}
+
+          {/* Efficiency / power / throttle views */}
+          <PerformanceChart rows={rows} hovers={hovers} volts={dataVolts} />
+
           {/* Flight Time vs Takeoff Weight */}
-          <div className="p-4 bg-white rounded-2xl shadow-sm">
+          <div className="p-4 bg-white rounded-2xl shadow-sm" ref={flightChartRef}>
             <div className="flex items-center justify-between mb-2">
               <h2 className="text-xl font-semibold">Flight Time vs Takeoff Weight</h2>
-              <div className="text-sm text-gray-600">Battery: {capacityAh} Ah × {usablePct}% usable</div>
+              <div className="text-sm text-gray-600">Battery: {batteryLabel} × {usablePct}% usable</div>
             </div>
+            <ChartExport targetRef={flightChartRef} name="flight-time-vs-weight" csv={flightCurvesCsv} legend={rows} />
             <div className="h-[420px]">
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis type="number" dataKey="w" name="Weight" unit=" kg" domain={[0, Math.max(weightMax, takeoffKg||0)]} label={{ value: 'Takeoff Weight (kg)', position: 'insideBottom', offset: -5 }} />
+                  <XAxis type="number" dataKey="w" name="Weight" unit=" kg" domain={[0, weightMax]} label={{ value: 'Takeoff Weight (kg)', position: 'insideBottom', offset: -5 }} />
                   <YAxis type="number" name="Time" unit=" min" domain={[0, 120]} label={{ value: 'Flight Time (min)', angle: -90, position: 'insideLeft' }} />
                   <Tooltip formatter={(value, name)=>[Number(value).toFixed(1)+' min', name]} labelFormatter={(label)=>`Weight: ${Number(label).toFixed(2)} kg`} />
-                  <ReferenceLine x={takeoffKg} stroke="#334155" strokeDasharray="4 4" label={{ value: `Current weight (${takeoffKg} kg)`, position: 'top' }} />
-                  <Line type="monotone" dataKey="t" name={(motorASpec?.name||'A') + ' • time'} data={flightCurveA_known} dot={false} strokeWidth={2} stroke="#2563eb" />
-                  <Line type="monotone" dataKey="t" name={(motorASpec?.name||'A') + ' • time (est)'} data={flightCurveA_est} dot={false} strokeWidth={2} stroke="#f59e0b" />
-                  <Line type="monotone" dataKey="t" name={(motorBSpec?.name||'B') + ' • time'} data={flightCurveB_known} dot={false} strokeWidth={2} stroke="#16a34a" />
-                  <Line type="monotone" dataKey="t" name={(motorBSpec?.name||'B') + ' • time (est)'} data={flightCurveB_est} dot={false} strokeWidth={2} stroke="#f59e0b" />
+                  {addPropulsion
+                    ? rows.map((r, i) => <ReferenceLine key={`weight-${r.key}`} x={hovers[i].takeoffKg} stroke={r.color} strokeDasharray="4 4" />)
+                    : <ReferenceLine x={takeoffKg} stroke="#334155" strokeDasharray="4 4" label={{ value: `Current weight (${Number(takeoffKg.toFixed(2))} kg)`, position: 'top' }} />}
+                  {rows.flatMap((r, i) => [
+                    <Line key={`${r.key}-known`} type="monotone" dataKey="t" name={(r.spec?.name || `Motor ${r.index + 1}`) + ' • time'} data={flightCurves[i].known} dot={false} strokeWidth={2} stroke={r.color} />,
+                    <Line key={`${r.key}-est`} type="monotone" dataKey="t" name={(r.spec?.name || `Motor ${r.index + 1}`) + ' • time (est)'} data={flightCurves[i].est} dot={false} strokeWidth={2} stroke="#f59e0b" />,
+                  ])}
                 </LineChart>
               </ResponsiveContainer>
             </div>
@@ -496,5 +2545,6 @@ export default function App(){
         </section>
       </div>
     </div>
+    </>
   );
 }
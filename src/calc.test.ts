@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSeries, interpolateCurrentForLift, fitCurve, estimateVoltageData, propDataAt,
+  simulateFlight, openPack, batteryCurrent, motorCurrentLimit, hoverAt, buildFlightCurve, buildCapacityCurve,
+  layoutThrustFactor, FRAME_LAYOUTS, densityCorrected, airDensity, SEA_LEVEL_RHO,
+  type DataPoint, type Battery,
+} from "./calc";
+
+// MAX 8020 with a 32×10 prop at 12S, from public/motors/max8020.json
+const MAX8020: DataPoint[] = [
+  { throttle:30,  current:2.7,  thrust_kg:1.887 },
+  { throttle:40,  current:5.3,  thrust_kg:3.190 },
+  { throttle:50,  current:10.6, thrust_kg:4.966 },
+  { throttle:60,  current:17.4, thrust_kg:7.199 },
+  { throttle:70,  current:24.1, thrust_kg:8.965 },
+  { throttle:80,  current:35.4, thrust_kg:11.554 },
+  { throttle:90,  current:45.3, thrust_kg:13.481 },
+  { throttle:100, current:57.9, thrust_kg:15.869 },
+];
+const series = buildSeries(MAX8020);
+const battery: Battery = { capacityAh:20, usablePct:80, cells:12, chemistry:'lipo', irMohm:3 };
+const ok = (r: ReturnType<typeof interpolateCurrentForLift>)=>{
+  if(!r.ok) throw new Error(`expected a hover point, got ${r.reason}`);
+  return r;
+};
+
+describe("buildSeries", ()=>{
+  it("drops incomplete rows and sorts by current", ()=>{
+    const s = buildSeries([{ throttle:50, current:10, thrust_kg:3 }, { throttle:40, current:NaN, thrust_kg:2 }, { throttle:30, current:4, thrust_kg:1 }]);
+    expect(s).toEqual([{ x:4, y:1, throttle:30 }, { x:10, y:3, throttle:50 }]);
+  });
+  it("returns an empty series for missing data", ()=>{
+    expect(buildSeries(undefined)).toEqual([]);
+  });
+});
+
+describe("interpolateCurrentForLift", ()=>{
+  it("returns the measured point exactly at a sample", ()=>{
+    const r = ok(interpolateCurrentForLift(series, 4.966));
+    expect(r.currentA).toBeCloseTo(10.6, 6);
+    expect(r.throttle).toBeCloseTo(50, 6);
+    expect(r.noteLow).toBe(false);
+  });
+  it("interpolates linearly between samples", ()=>{
+    const lift = (3.190 + 4.966) / 2;
+    const r = ok(interpolateCurrentForLift(series, lift));
+    expect(r.currentA).toBeCloseTo((5.3 + 10.6) / 2, 6);
+    expect(r.throttle).toBeCloseTo(45, 6);
+    expect(r.noteLow).toBe(false);
+  });
+  it("keeps every model within the bracketing samples in range", ()=>{
+    for(const model of ['linear', 'spline', 'powerlaw'] as const){
+      const r = ok(interpolateCurrentForLift(series, 2.5, model));
+      expect(r.currentA).toBeGreaterThan(2.7);
+      expect(r.currentA).toBeLessThan(5.3);
+    }
+  });
+  it("extrapolates below the data with a power law through the first two points", ()=>{
+    const r = ok(interpolateCurrentForLift(series, 1.0));
+    const b = Math.log(5.3 / 2.7) / Math.log(3.190 / 1.887);
+    expect(r.currentA).toBeCloseTo(2.7 * Math.pow(1.0 / 1.887, b), 6);
+    expect(r.currentA).toBeLessThan(2.7);
+    expect(r.throttle).toBeLessThan(30);
+    expect(r.noteLow).toBe(true);
+  });
+  it("flags low-end estimates from the power-law model too", ()=>{
+    const r = ok(interpolateCurrentForLift(series, 1.0, 'powerlaw'));
+    expect(r.noteLow).toBe(true);
+    expect(r.currentA).toBeGreaterThan(0);
+  });
+  it("extrapolates linearly, clamped at zero, when the first point draws no current", ()=>{
+    const s = buildSeries([{ throttle:10, current:0, thrust_kg:0.5 }, { throttle:20, current:2, thrust_kg:1.5 }]);
+    const r = ok(interpolateCurrentForLift(s, 0.25));
+    expect(r.currentA).toBe(0);
+    expect(r.throttle).toBeCloseTo(7.5, 6);
+    expect(r.noteLow).toBe(true);
+  });
+  it("refuses lift above the measured maximum for every model", ()=>{
+    for(const model of ['linear', 'spline', 'powerlaw'] as const){
+      expect(interpolateCurrentForLift(series, 16, model)).toEqual({ ok:false, reason:'exceeds-max' });
+    }
+  });
+  it("reports missing data", ()=>{
+    expect(interpolateCurrentForLift([], 1)).toEqual({ ok:false, reason:'no-data' });
+    expect(interpolateCurrentForLift(undefined, 1)).toEqual({ ok:false, reason:'no-data' });
+  });
+
+  describe("with a single data point", ()=>{
+    const one = buildSeries([{ throttle:50, current:8, thrust_kg:2 }]);
+    it("returns the point itself at its own thrust", ()=>{
+      expect(interpolateCurrentForLift(one, 2)).toEqual({ ok:true, currentA:8, throttle:50, noteLow:false });
+    });
+    it("scales towards the origin below it", ()=>{
+      const r = ok(interpolateCurrentForLift(one, 1));
+      expect(r.currentA).toBeCloseTo(4, 6);
+      expect(r.throttle).toBeCloseTo(25, 6);
+      expect(r.noteLow).toBe(true);
+    });
+    it("refuses lift above it", ()=>{
+      expect(interpolateCurrentForLift(one, 2.1)).toEqual({ ok:false, reason:'exceeds-max' });
+    });
+    it("falls back from models that need more points", ()=>{
+      expect(ok(interpolateCurrentForLift(one, 1, 'spline')).currentA).toBeCloseTo(4, 6);
+      expect(ok(interpolateCurrentForLift(one, 1, 'powerlaw')).currentA).toBeCloseTo(4, 6);
+    });
+  });
+});
+
+describe("fitCurve", ()=>{
+  it("spans the measured thrust range", ()=>{
+    const c = fitCurve(series, 'spline', 10);
+    expect(c).toHaveLength(11);
+    expect(c[0].y).toBeCloseTo(1.887, 6);
+    expect(c[10].y).toBeCloseTo(15.869, 6);
+  });
+});
+
+describe("voltage estimates", ()=>{
+  const data = { '6S': [{ throttle:50, current:5, thrust_kg:1 }, { throttle:100, current:20, thrust_kg:3 }] };
+  it("scales thrust and current with the voltage ratio squared", ()=>{
+    const est = estimateVoltageData(data, '12S');
+    expect(est?.from).toEqual(['6S']);
+    expect(est?.points[0]).toEqual({ throttle:50, current:20, thrust_kg:4 });
+  });
+  it("uses measured data when present and only estimates when allowed", ()=>{
+    const prop = { id:'p', data };
+    expect(propDataAt(prop, '6S', false)).toEqual({ points:data['6S'], estFrom:null });
+    expect(propDataAt(prop, '12S', false)).toBeNull();
+    expect(propDataAt(prop, '12S', true)?.estFrom).toEqual(['6S']);
+  });
+});
+
+describe("flight time", ()=>{
+  it("ends at the usable capacity for a light load", ()=>{
+    const f = simulateFlight(3.923, 4, 12, battery);
+    expect(f?.end).toBe('capacity');
+    expect(f?.ah).toBeCloseTo(16, 6);
+    expect(f?.minutes).toBeGreaterThan(60);
+    expect(f?.minutes).toBeLessThan(65);
+  });
+  it("gets shorter with power-train losses", ()=>{
+    const lossless = simulateFlight(3.923, 4, 12, battery)!.minutes;
+    const lossy = simulateFlight(3.923, 4, 12, { ...battery, escEffPct:92, wiringMohm:5, auxLoad:4, auxUnit:'A' })!.minutes;
+    expect(lossy).toBeLessThan(lossless);
+  });
+  it("clamps ESC efficiency to 1–100%", ()=>{
+    expect(openPack({ ...battery, escEffPct:0 }, 12).escEff).toBe(0.01);
+    expect(openPack({ ...battery, escEffPct:-50 }, 12).escEff).toBe(0.01);
+    expect(openPack({ ...battery, escEffPct:150 }, 12).escEff).toBe(1);
+    expect(openPack({ ...battery, escEffPct:undefined }, 12).escEff).toBe(1);
+    expect(simulateFlight(3.923, 4, 12, { ...battery, escEffPct:-50 })).toEqual(simulateFlight(3.923, 4, 12, { ...battery, escEffPct:1 }));
+  });
+  it("returns null without a load or a pack", ()=>{
+    expect(simulateFlight(0, 4, 12, battery)).toBeNull();
+    expect(simulateFlight(5, 4, 12, { ...battery, capacityAh:0 })).toBeNull();
+  });
+  it("converts between battery and motor current through the power train", ()=>{
+    const pack = openPack({ ...battery, escEffPct:90, wiringMohm:4, auxLoad:30 }, 12);
+    const volts = 12 * 3.7;
+    expect(motorCurrentLimit(batteryCurrent(40, pack, volts), pack, volts)).toBeCloseTo(40, 6);
+    const lossless = openPack(battery, 12);
+    expect(batteryCurrent(40, lossless, volts)).toBeCloseTo(40, 9);
+  });
+  it("summarises a hover", ()=>{
+    const h = hoverAt(series, { takeoffKg:10, motorCount:4, thrustFactor:1, specCells:12, battery });
+    expect(h.liftKg).toBe(2.5);
+    expect(h.hover.ok).toBe(true);
+    expect(h.tw).toBeCloseTo(15.869 * 4 / 10, 6);
+    expect(h.flight?.minutes).toBeCloseTo(simulateFlight(ok(h.hover).currentA, 4, 12, battery)!.minutes, 9);
+  });
+  it("counts power-train losses in the system g/W", ()=>{
+    const opts = { takeoffKg:10, motorCount:4, thrustFactor:1, specCells:12, battery };
+    const lossless = hoverAt(series, opts).gpw!;
+    expect(lossless).toBeCloseTo(10000 / (ok(hoverAt(series, opts).hover).currentA * 4 * 12 * 3.7), 6);
+    expect(hoverAt(series, { ...opts, battery:{ ...battery, escEffPct:92, wiringMohm:5, auxLoad:20 } }).gpw!).toBeLessThan(lossless);
+  });
+  it("can't hover above the data", ()=>{
+    const h = hoverAt(series, { takeoffKg:80, motorCount:4, thrustFactor:1, specCells:12, battery });
+    expect(h.hover.ok).toBe(false);
+    expect(h.flight).toBeNull();
+  });
+});
+
+describe("curves", ()=>{
+  it("marks the flight curve below the data as estimated and includes the boundary", ()=>{
+    const c = buildFlightCurve(series, 4, 1, 12, battery, 20);
+    expect(c.some(d => d.est)).toBe(true);
+    expect(c.find(d => !d.est)?.w).toBeCloseTo(1.887 * 4, 6);
+    expect(c.every((d, i) => i === 0 || d.w >= c[i-1].w)).toBe(true);
+  });
+  it("stops the capacity curve once the aircraft can't hover", ()=>{
+    const c = buildCapacityCurve(series, 4, 1, 12, battery, 40, 0.5, 100);
+    expect(c.length).toBeGreaterThan(0);
+    expect(c[c.length-1].takeoff).toBeLessThanOrEqual(15.869 * 4);
+  });
+});
+
+describe("environment and layout", ()=>{
+  it("has sea-level ISA density at 0 m and 15 °C", ()=>{
+    expect(airDensity(0, 15)).toBeCloseTo(SEA_LEVEL_RHO, 3);
+  });
+  it("scales thrust and current by the density ratio", ()=>{
+    expect(densityCorrected(MAX8020, 0.8)?.[0]).toEqual({ throttle:30, current:2.7 * 0.8, thrust_kg:1.887 * 0.8 });
+    expect(densityCorrected(MAX8020, 1)).toBe(MAX8020);
+  });
+  it("loses thrust on the lower props of coaxial frames only", ()=>{
+    expect(layoutThrustFactor(FRAME_LAYOUTS.find(l => l.id === 'quad'), 20)).toBe(1);
+    expect(layoutThrustFactor(FRAME_LAYOUTS.find(l => l.id === 'x8'), 20)).toBeCloseTo(0.9, 9);
+  });
+});
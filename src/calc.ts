@@ -0,0 +1,523 @@
+// Motor/prop physics shared by the app and the CLI (scripts/motor-check.ts). No React, no DOM.
+
+// ---- Spec file types ----
+// One row of a spec sheet: throttle in %, current in A per motor, thrust in kg per motor
+export type DataPoint = { throttle: number; current: number; thrust_kg: number };
+export type PropSpec = {
+  id: string;
+  name?: string;
+  mass_g?: number;
+  diameter_in?: number;
+  data: Record<string, DataPoint[]>; // keyed by voltage, "<cells>S"
+};
+export type MotorSpec = {
+  schemaVersion?: number;
+  id: string;
+  name?: string;
+  manufacturer?: string;
+  kv?: number;
+  mass_g?: number;
+  stator?: string;
+  max_continuous_a?: number;
+  price?: number;
+  currency?: string;
+  source_url?: string;
+  props: PropSpec[];
+};
+export type CatalogEntry = { id: string; name?: string; url: string; manufacturer?: string; kv?: number };
+export type Catalog = { schemaVersion?: number; catalog: CatalogEntry[] } | CatalogEntry[];
+
+// Per-motor series used by every lookup: x = current (A), y = thrust (kg)
+export type SeriesPoint = { x: number; y: number; throttle?: number };
+export type FitModel = 'linear' | 'spline' | 'powerlaw';
+export type HoverResult =
+  | { ok: true; currentA: number; throttle: number; noteLow: boolean }
+  | { ok: false; reason: 'no-data' | 'exceeds-max' | 'segment-not-found' };
+
+// Frame layouts. Coaxial frames stack motors in pairs; the lower prop of each pair
+// works in the upper prop's downwash and loses thrust (see layoutThrustFactor).
+export type FrameLayout = { id: string; name: string; motors: number; coaxial: boolean };
+export const FRAME_LAYOUTS: FrameLayout[] = [
+  { id:'quad', name:'Quad (4)',       motors:4, coaxial:false },
+  { id:'hexa', name:'Hexa (6)',       motors:6, coaxial:false },
+  { id:'octo', name:'Octo (8)',       motors:8, coaxial:false },
+  { id:'y6',   name:'Coaxial Y6 (6)', motors:6, coaxial:true },
+  { id:'x8',   name:'Coaxial X8 (8)', motors:8, coaxial:true },
+];
+// Average thrust multiplier per motor: half the motors of a coaxial frame are lower props.
+export function layoutThrustFactor(layout: FrameLayout | undefined, coaxLossPct: number): number {
+  if(!layout?.coaxial) return 1;
+  const loss = Math.min(Math.max(coaxLossPct || 0, 0), 100) / 100;
+  return 1 - loss / 2;
+}
+export function byId<T extends { id: string }>(arr: T[] | null | undefined, id: string | undefined): T | undefined {
+  return (arr||[]).find(a => a.id === id);
+}
+export function buildSeries(points: DataPoint[] | null | undefined): SeriesPoint[] {
+  if(!points) return [];
+  return points
+    .filter(p => Number.isFinite(p.current) && Number.isFinite(p.thrust_kg))
+    .map(p => ({ x:p.current, y:p.thrust_kg, throttle:p.throttle }))
+    .sort((a,b)=> a.x - b.x);
+}
+export function interpolateCurrentForLift(series: SeriesPoint[] | null | undefined, liftKgPerMotor: number, model: FitModel = 'linear'): HoverResult {
+  if(!series || !series.length) return { ok:false, reason:'no-data' };
+  const pts = [...series].sort((a,b)=>a.y-b.y);
+  const min = pts[0], max = pts[pts.length-1];
+
+  const fits = model === 'linear' ? null : seriesFits(series);
+  if(model === 'powerlaw' && fits?.powerlaw){
+    const fit = fits.powerlaw;
+    if(liftKgPerMotor > max.y) return { ok:false, reason:'exceeds-max' };
+    const thr = fit.throttle ? fit.throttle(liftKgPerMotor) : (min.throttle ?? 0) * Math.sqrt(Math.max(liftKgPerMotor, 0) / (min.y || 1e-9));
+    return { ok:true, currentA: Math.max(0, fit.current(liftKgPerMotor)), throttle: Math.max(0, thr), noteLow: liftKgPerMotor < min.y };
+  }
+
+  // Below the first real thrust: extrapolate using the first two points.
+  // Prefer a power-law fit (I ≈ a * T^b). If not possible, fall back to linear.
+  if(liftKgPerMotor < min.y){
+    if(pts.length >= 2){
+      const a = pts[0], b = pts[1];
+      const dy = (b.y - a.y) || 1e-9;
+      // Try power-law on positive pairs
+      if(a.y>0 && b.y>0 && a.x>0 && b.x>0){
+        const bExp = Math.log(b.x/a.x) / Math.log(b.y/a.y); // exponent b in I=a*T^b
+        const aCoef = a.x / Math.pow(a.y, bExp);            // coefficient a
+        const currentPL = aCoef * Math.pow(Math.max(liftKgPerMotor, 1e-9), bExp);
+        // Throttle: if available, fit throttle ≈ c * T^d; else approximate thr ∝ sqrt(T)
+        let thr;
+        if((a.throttle??0)>0 && (b.throttle??0)>0){
+          const dExp = Math.log((b.throttle||1)/(a.throttle||1)) / Math.log(b.y/a.y);
+          const cCoef = (a.throttle||1) / Math.pow(a.y, dExp);
+          thr = cCoef * Math.pow(Math.max(liftKgPerMotor, 1e-9), dExp);
+        } else {
+          // T ~ RPM^2, throttle ~ RPM → throttle ~ sqrt(T)
+          const k = (a.throttle ?? 0) / Math.sqrt(a.y || 1e-9);
+          thr = k * Math.sqrt(Math.max(liftKgPerMotor, 0));
+        }
+        return { ok:true, currentA: Math.max(0,currentPL), throttle: Math.max(0,thr), noteLow:true };
+      }
+      // Fallback: linear in thrust-current and thrust-throttle
+      const slopeIx = (b.x - a.x) / dy;           // dI/dT
+      const slopeTh = ((b.throttle ?? 0) - (a.throttle ?? 0)) / dy; // dThr/dT
+      const current = Math.max(0, a.x + (liftKgPerMotor - a.y) * slopeIx);
+      const thr = Math.max(0, (a.throttle ?? 0) + (liftKgPerMotor - a.y) * slopeTh);
+      return { ok:true, currentA: current, throttle: thr, noteLow:true };
+    }
+    // Fallback: single point → scale towards origin
+    const scale = Math.max(0, liftKgPerMotor / Math.max(min.y, 1e-9));
+    return { ok:true, currentA: min.x * scale, throttle: (min.throttle ?? 0) * scale, noteLow:true };
+  }
+
+  if(liftKgPerMotor > max.y){
+    return { ok:false, reason:'exceeds-max' };
+  }
+  if(model === 'spline' && fits?.spline){
+    return { ok:true, currentA: Math.max(0, fits.spline.current(liftKgPerMotor)), throttle: Math.max(0, fits.spline.throttle(liftKgPerMotor)), noteLow:false };
+  }
+
+  for(let i=0;i<pts.length-1;i++){
+    const a=pts[i], b=pts[i+1];
+    if(liftKgPerMotor >= a.y && liftKgPerMotor <= b.y){
+      const t = (liftKgPerMotor - a.y) / ((b.y - a.y) || 1);
+      const current = a.x + t*(b.x - a.x);
+      const thr = (a.throttle ?? 0) + t*((b.throttle ?? 0) - (a.throttle ?? 0));
+      return { ok:true, currentA:current, throttle:thr, noteLow:false };
+    }
+  }
+  // A single point equal to the lift is its own answer
+  if(pts.length === 1) return { ok:true, currentA:min.x, throttle:min.throttle ?? 0, noteLow:false };
+  return { ok:false, reason:'segment-not-found' };
+}
+
+// ---- Curve fitting ----
+// Current and throttle as functions of per‑motor lift. Every model refuses above the measured max
+// and flags anything below the data as noteLow, so estimate vs measured stays explicit.
+export const FIT_MODELS: { id: FitModel; name: string }[] = [
+  { id:'linear',   name:'Piecewise linear' },
+  { id:'spline',   name:'Monotone cubic spline' },
+  { id:'powerlaw', name:'Power law (I = a·Tᵇ)' },
+];
+type Curve = (x: number) => number;
+// Fritsch–Carlson tangents; xs strictly increasing
+export function monotoneCubic(xs: number[], ys: number[]): Curve {
+  const n = xs.length;
+  const d = xs.slice(1).map((x, i) => (ys[i+1] - ys[i]) / (x - xs[i]));
+  const m = xs.map((_, i) => i === 0 ? d[0] : i === n-1 ? d[n-2] : (d[i-1] * d[i] <= 0 ? 0 : (d[i-1] + d[i]) / 2));
+  d.forEach((di, i) => {
+    if(di === 0){ m[i] = 0; m[i+1] = 0; return; }
+    const a = m[i] / di, b = m[i+1] / di, s = a*a + b*b;
+    if(s > 9){ const t = 3 / Math.sqrt(s); m[i] = t*a*di; m[i+1] = t*b*di; }
+  });
+  return (x)=>{
+    let i = 0;
+    while(i < n-2 && x > xs[i+1]) i++;
+    const h = xs[i+1] - xs[i], t = (x - xs[i]) / h;
+    const h00 = (1 + 2*t) * (1-t) * (1-t), h10 = t * (1-t) * (1-t), h01 = t*t * (3 - 2*t), h11 = t*t * (t - 1);
+    return h00*ys[i] + h10*h*m[i] + h01*ys[i+1] + h11*h*m[i+1];
+  };
+}
+// Least squares on log–log: v ≈ a·Tᵇ over points where both are positive
+export function powerLawFit(pts: SeriesPoint[], key: 'x' | 'throttle'): { a: number; b: number; at: Curve } | null {
+  const xs = pts.filter(p => p.y > 0 && (p[key] ?? 0) > 0);
+  if(xs.length < 2) return null;
+  const lx = xs.map(p => Math.log(p.y)), ly = xs.map(p => Math.log(p[key] as number));
+  const mx = lx.reduce((s,v)=>s+v, 0) / lx.length, my = ly.reduce((s,v)=>s+v, 0) / ly.length;
+  const sxx = lx.reduce((s,v)=>s+(v-mx)**2, 0);
+  if(!(sxx > 0)) return null;
+  const b = lx.reduce((s,v,i)=>s+(v-mx)*(ly[i]-my), 0) / sxx;
+  const a = Math.exp(my - b*mx);
+  return { a, b, at: (T)=> a * Math.pow(Math.max(T, 1e-9), b) };
+}
+export type SeriesFits = {
+  spline: { current: Curve; throttle: Curve } | null;
+  powerlaw: { current: Curve; throttle?: Curve; a: number; b: number } | null;
+};
+// Fits are per series array; series are rebuilt whenever their data changes
+const fitCache = new WeakMap<SeriesPoint[], SeriesFits>();
+export function seriesFits(series: SeriesPoint[]): SeriesFits {
+  let fits = fitCache.get(series);
+  if(!fits){
+    const pts = [...series].sort((a,b)=>a.y-b.y).filter((p, i, arr) => i === 0 || p.y > arr[i-1].y);
+    const xs = pts.map(p => p.y);
+    const current = powerLawFit(series, 'x'), throttle = powerLawFit(series, 'throttle');
+    fits = {
+      spline: pts.length >= 3 ? { current: monotoneCubic(xs, pts.map(p => p.x)), throttle: monotoneCubic(xs, pts.map(p => p.throttle ?? 0)) } : null,
+      powerlaw: current ? { current: current.at, throttle: throttle?.at, a: current.a, b: current.b } : null,
+    };
+    fitCache.set(series, fits);
+  }
+  return fits;
+}
+export type FitQuality = {
+  residuals: { lift: number; measured: number; fitted: number | null; resid: number | null }[];
+  r2: number | null;
+  rmse: number | null;
+  loo: number | null;
+};
+// In-sample residuals, R² and leave‑one‑out RMSE (interior points only; interpolants have zero in‑sample error)
+export function fitQuality(series: SeriesPoint[] | null | undefined, model: FitModel): FitQuality | null {
+  const pts = [...(series || [])].sort((a,b)=>a.y-b.y);
+  if(!series || pts.length < 2) return null;
+  const residuals = pts.map(p => {
+    const f = interpolateCurrentForLift(series, p.y, model);
+    return { lift:p.y, measured:p.x, fitted: f.ok ? f.currentA : null, resid: f.ok ? p.x - f.currentA : null };
+  });
+  const ok = residuals.filter(r => r.resid != null);
+  const mean = pts.reduce((s,p)=>s+p.x, 0) / pts.length;
+  const ssRes = ok.reduce((s,r)=>s+(r.resid as number)**2, 0), ssTot = pts.reduce((s,p)=>s+(p.x-mean)**2, 0);
+  const loo = pts.slice(1, -1).map(p => {
+    const f = interpolateCurrentForLift(series.filter(q => q !== p), p.y, model);
+    return f.ok ? (p.x - f.currentA)**2 : null;
+  }).filter((v): v is number => v != null);
+  return {
+    residuals,
+    r2: ssTot > 0 ? 1 - ssRes / ssTot : null,
+    rmse: ok.length ? Math.sqrt(ssRes / ok.length) : null,
+    loo: loo.length ? Math.sqrt(loo.reduce((s,v)=>s+v, 0) / loo.length) : null,
+  };
+}
+// Dense model curve across the measured thrust range for charting
+export function fitCurve(series: SeriesPoint[] | null | undefined, model: FitModel, points = 40): SeriesPoint[] {
+  if(!series || series.length < 2) return series || [];
+  const ys = series.map(p => p.y);
+  const lo = Math.min(...ys), hi = Math.max(...ys);
+  const out: SeriesPoint[] = [];
+  for(let i=0;i<=points;i++){
+    const y = lo + (hi - lo) * i / points;
+    const f = interpolateCurrentForLift(series, y, model);
+    if(f.ok) out.push({ x:f.currentA, y, throttle:Math.round(f.throttle * 10) / 10 });
+  }
+  return out;
+}
+export function seriesTotals(series: SeriesPoint[] | null | undefined, motorCount: number, thrustFactor = 1){
+  if(!series || !series.length) return null;
+  const maxPt = series.reduce((m,p)=> (p.y>m.y? p : m), series[0]);
+  return { maxThrustKg: maxPt.y * motorCount * thrustFactor, peakCurrentA: maxPt.x * motorCount };
+}
+
+// ---- Voltages ----
+export function cellsOf(voltageKey: string | null | undefined): number | null {
+  const m = String(voltageKey || '').match(/^\s*(\d+(?:\.\d+)?)\s*S/i);
+  return m ? Number(m[1]) : null;
+}
+// Linear interpolation of a dataset at a throttle, null outside the measured range
+export function pointAtThrottle(points: DataPoint[], throttle: number): DataPoint | null {
+  const pts = points.filter(p => Number.isFinite(p.throttle)).sort((a,b)=>a.throttle-b.throttle);
+  for(let i=0;i<pts.length;i++){
+    const a = pts[i], b = pts[i+1] || a;
+    if(throttle >= a.throttle && throttle <= b.throttle){
+      const t = (throttle - a.throttle) / ((b.throttle - a.throttle) || 1);
+      return { throttle, current: a.current + t*(b.current - a.current), thrust_kg: a.thrust_kg + t*(b.thrust_kg - a.thrust_kg) };
+    }
+  }
+  return null;
+}
+// Estimate a prop's data at a voltage it wasn't measured at. At a given throttle RPM ∝ V,
+// thrust ∝ RPM² and power ∝ RPM³, so thrust and current both scale with (V'/V)².
+// Bracketed voltages blend the two scaled neighbours by throttle; otherwise the nearest is used.
+export function estimateVoltageData(data: Record<string, DataPoint[]> | null | undefined, voltageKey: string): { points: DataPoint[]; from: string[] } | null {
+  const target = cellsOf(voltageKey);
+  const measured = Object.keys(data||{})
+    .map(key => ({ key, cells: cellsOf(key) as number, pts: (data as Record<string, DataPoint[]>)[key] }))
+    .filter(m => m.cells && m.pts?.length);
+  if(!target || !measured.length) return null;
+  const scaled = (m: typeof measured[number])=>{
+    const k2 = (target / m.cells) ** 2;
+    return m.pts.map(p => ({ ...p, current: p.current * k2, thrust_kg: p.thrust_kg * k2 }));
+  };
+  const below = measured.filter(m => m.cells < target).sort((a,b)=>b.cells-a.cells)[0];
+  const above = measured.filter(m => m.cells > target).sort((a,b)=>a.cells-b.cells)[0];
+  if(!below || !above){
+    const nearest = below || above;
+    return { points: scaled(nearest), from: [nearest.key] };
+  }
+  const w = (target - below.cells) / (above.cells - below.cells);
+  const hi = scaled(above);
+  const points = scaled(below).map(p => {
+    const q = pointAtThrottle(hi, p.throttle);
+    return q && { throttle: p.throttle, current: p.current*(1-w) + q.current*w, thrust_kg: p.thrust_kg*(1-w) + q.thrust_kg*w };
+  }).filter((p): p is DataPoint => !!p);
+  if(!points.length) return { points: scaled(w < 0.5 ? below : above), from: [w < 0.5 ? below.key : above.key] };
+  return { points, from: [below.key, above.key] };
+}
+// A prop's data at a voltage: measured if present, else an estimate when allowed
+export function propDataAt(prop: PropSpec | null | undefined, voltageKey: string, allowEstimate: boolean): { points: DataPoint[]; estFrom: string[] | null } | null {
+  const measured = prop?.data?.[voltageKey];
+  if(measured?.length) return { points: measured, estFrom: null };
+  if(!allowEstimate) return null;
+  const est = estimateVoltageData(prop?.data, voltageKey);
+  return est ? { points: est.points, estFrom: est.from } : null;
+}
+
+// ---- Battery & flight time ----
+// Battery chemistries: open-circuit cell voltage at 0%, 10% … 100% state of charge,
+// nominal cell voltage, default per-cell internal resistance and the loaded cutoff.
+export type Chemistry = { id: string; name: string; ocv: number[]; nominalV: number; irMohm: number; cutoffV: number };
+export const CHEMISTRIES: Chemistry[] = [
+  { id:'lipo',  name:'LiPo',   ocv:[3.27,3.69,3.73,3.77,3.79,3.82,3.87,3.92,3.97,4.06,4.20], nominalV:3.7,  irMohm:3,  cutoffV:3.5 },
+  { id:'lihv',  name:'LiHV',   ocv:[3.30,3.76,3.82,3.86,3.89,3.93,3.98,4.04,4.11,4.21,4.35], nominalV:3.8,  irMohm:3,  cutoffV:3.5 },
+  { id:'liion', name:'Li-ion', ocv:[3.00,3.42,3.52,3.60,3.66,3.72,3.80,3.88,3.97,4.07,4.20], nominalV:3.6,  irMohm:15, cutoffV:3.0 },
+];
+// Spec sheet currents are taken as measured at nominal LiPo voltage for their cell count.
+export const SPEC_CELL_V = 3.7;
+export const SIM_STEP_S = 5;
+function cellOcv(chem: Chemistry, soc: number): number {
+  const pos = Math.min(Math.max(soc, 0), 1) * (chem.ocv.length - 1);
+  const i = Math.min(Math.floor(pos), chem.ocv.length - 2);
+  return chem.ocv[i] + (pos - i) * (chem.ocv[i+1] - chem.ocv[i]);
+}
+// The battery object also carries the power train between pack and motors: escEffPct,
+// wiringMohm (leads + connectors) and an always-on avionics load of auxLoad in auxUnit
+// ('W', or 'A' at nominal pack voltage).
+export type Battery = {
+  capacityAh: number;
+  usablePct: number;
+  cells?: number;
+  chemistry?: string;
+  irMohm?: number;
+  escEffPct?: number;
+  wiringMohm?: number;
+  auxLoad?: number;
+  auxUnit?: 'W' | 'A';
+};
+export type Pack = {
+  chem: Chemistry;
+  cells: number;
+  capacityAh: number;
+  usableAh: number;
+  R: number;
+  wiringR: number;
+  escEff: number;
+  auxW: number;
+  ah: number;
+  wh: number;
+};
+export type PackEnd = 'capacity' | 'cutoff' | 'sag';
+// Pack state shared by the steady-hover and mission simulations
+export function openPack(battery: Battery, specCells: number | null): Pack {
+  const chem = byId(CHEMISTRIES, battery.chemistry) || CHEMISTRIES[0];
+  const cells = battery.cells || specCells || 0;
+  const aux = battery.auxLoad || 0;
+  const effPct = battery.escEffPct ?? 100;
+  return {
+    chem, cells, capacityAh: battery.capacityAh,
+    usableAh: battery.capacityAh * (battery.usablePct/100),
+    R: cells * (battery.irMohm ?? chem.irMohm) / 1000,
+    wiringR: (battery.wiringMohm || 0) / 1000,
+    escEff: Math.min(Math.max(Number.isFinite(effPct) ? effPct : 100, 1), 100) / 100, // 0 or less is a 1% ESC, not a lossless one
+    auxW: battery.auxUnit === 'A' ? aux * cells * chem.nominalV : aux,
+    ah: 0, wh: 0,
+  };
+}
+// Draw a constant motor power for up to dtH hours. Returns the pack current, the time actually drawn,
+// and why the pack stopped (null while it still has charge).
+export function drawPack(pack: Pack, motorW: number, dtH: number): { current: number; hours: number; end: PackEnd | null } {
+  const powerW = motorW / pack.escEff + pack.auxW; // what the ESCs and avionics take off the bus
+  const R = pack.R + pack.wiringR;
+  const voc = pack.cells * cellOcv(pack.chem, 1 - pack.ah / pack.capacityAh);
+  const disc = voc*voc - 4*R*powerW;
+  if(disc < 0) return { current:0, hours:0, end:'sag' }; // pack can't deliver this power at any current
+  const current = R > 0 ? (voc - Math.sqrt(disc)) / (2*R) : powerW / voc;
+  const vLoad = voc - current * pack.R; // at the pack terminals; wiring loss is downstream
+  if(vLoad < pack.cells * pack.chem.cutoffV) return { current, hours:0, end:'cutoff' };
+  const step = Math.min(dtH, (pack.usableAh - pack.ah) / current);
+  pack.ah += current * step; pack.wh += current * vLoad * step;
+  return { current, hours: step, end: pack.ah >= pack.usableAh - 1e-9 ? 'capacity' : null };
+}
+export type FlightResult = { minutes: number; wh: number; ah: number; avgA: number; end: PackEnd | 'time-cap' };
+// Step the pack through a constant electrical load. The motors need the power the spec data
+// implies (current × spec voltage), so as the pack voltage sags the battery current rises.
+// Ends at the usable capacity, the loaded cutoff voltage, or maxMin.
+export function simulateFlight(perMotorA: number, motorCount: number, specCells: number | null, battery: Battery, maxMin = 120): FlightResult | null {
+  const pack = openPack(battery, specCells);
+  const powerW = perMotorA * motorCount * (specCells || pack.cells) * SPEC_CELL_V;
+  if(!(powerW > 0) || !(pack.cells > 0) || !(pack.usableAh > 0)) return null;
+  let h = 0, end: FlightResult['end'] = 'time-cap';
+  while(h < maxMin/60){
+    const d = drawPack(pack, powerW, Math.min(SIM_STEP_S / 3600, maxMin/60 - h));
+    h += d.hours;
+    if(d.end){ end = d.end; break; }
+  }
+  return { minutes: h * 60, wh: pack.wh, ah: pack.ah, avgA: h > 0 ? pack.ah / h : 0, end };
+}
+// Battery current for a total spec-sheet motor current and the reverse, both at the spec voltage
+// like the shading on the Power Curves chart. Pack sag is left to the simulations above.
+export function batteryCurrent(motorA: number, pack: Pack, volts: number): number {
+  const powerW = motorA * volts / pack.escEff + pack.auxW;
+  const disc = volts*volts - 4*pack.wiringR*powerW;
+  if(disc < 0) return Infinity;
+  return pack.wiringR > 0 ? (volts - Math.sqrt(disc)) / (2*pack.wiringR) : powerW / volts;
+}
+export function motorCurrentLimit(batteryA: number, pack: Pack, volts: number): number {
+  const busW = batteryA * (volts - batteryA * pack.wiringR);
+  return Math.max(0, (busW - pack.auxW) * pack.escEff / volts);
+}
+export type HoverOptions = {
+  takeoffKg: number;
+  motorCount: number;
+  thrustFactor: number;
+  specCells: number | null;
+  battery: Battery;
+  model?: FitModel;
+};
+export type HoverSummary = {
+  liftKg: number;
+  hover: HoverResult;
+  flight: FlightResult | null;
+  tw: number | null;
+  gpw: number | null;
+};
+// Hover operating point and endurance for one aircraft weight (coaxial loss raises the lift each motor must make)
+export function hoverAt(series: SeriesPoint[] | null | undefined, { takeoffKg, motorCount, thrustFactor, specCells, battery, model = 'linear' }: HoverOptions): HoverSummary {
+  const liftKg = takeoffKg / (motorCount * thrustFactor);
+  const hover = interpolateCurrentForLift(series, liftKg, model);
+  const totals = seriesTotals(series, motorCount, thrustFactor);
+  const volts = (specCells || battery.cells || 0) * SPEC_CELL_V;
+  const busW = hover.ok ? batteryCurrent(hover.currentA * motorCount, openPack(battery, specCells), volts) * volts : 0; // what the pack supplies at hover
+  return {
+    liftKg, hover,
+    flight: hover.ok ? simulateFlight(hover.currentA, motorCount, specCells, battery) : null,
+    tw: totals && takeoffKg > 0 ? totals.maxThrustKg / takeoffKg : null,
+    gpw: busW > 0 && Number.isFinite(busW) ? takeoffKg * 1000 / busW : null, // whole-aircraft g/W from the pack at hover
+  };
+}
+export type FlightCurvePoint = { w: number; t: number; est: boolean };
+// Weight→time curve from a per-motor series
+export function buildFlightCurve(series: SeriesPoint[] | null | undefined, motorCount: number, thrustFactor: number, specCells: number | null, battery: Battery, points = 60, model: FitModel = 'linear'): FlightCurvePoint[] {
+  if(!series || !series.length) return [];
+  const ys = series.map(p=>p.y).filter(n=>Number.isFinite(n));
+  const minPerMotorLift = ys.length ? Math.min(...ys) : 0;
+  const maxPerMotorLift = ys.length ? Math.max(...ys) : 0;
+
+  // Sample by per‑motor lift so we can place a point exactly at the real boundary
+  const startPer = Math.max(0, minPerMotorLift * 0.7);   // extend 30% below
+  const endPer   = Math.max(startPer + 0.01, maxPerMotorLift * 0.99);
+  const floorPerMotorA = 0.1; // smaller floor so the orange segment isn't flat
+
+  const out: FlightCurvePoint[] = [];
+  for(let i=0;i<points;i++){
+    const perMotor = startPer + (endPer - startPer) * (i/(points-1));
+    const interp = interpolateCurrentForLift(series, perMotor, model);
+    if(interp && interp.ok){
+      const perMotorA = Math.max(interp.currentA || 0, floorPerMotorA);
+      const minutes = simulateFlight(perMotorA, motorCount, specCells, battery)?.minutes ?? 0;
+      const isEst = perMotor < minPerMotorLift - 1e-9;
+      out.push({ w: perMotor * motorCount * thrustFactor, t: minutes, est: isEst });
+    }
+  }
+  // Ensure a point exactly at the boundary so orange and blue/green touch
+  if(minPerMotorLift > 0){
+    const b = interpolateCurrentForLift(series, minPerMotorLift, model);
+    if(b && b.ok){
+      const perMotorA = Math.max(b.currentA || 0, floorPerMotorA);
+      const minutes = simulateFlight(perMotorA, motorCount, specCells, battery)?.minutes ?? 0;
+      const boundary = { w: minPerMotorLift * motorCount * thrustFactor, t: minutes, est: false };
+      // de-dup close weights
+      const exists = out.some(p => Math.abs(p.w - boundary.w) < 1e-6);
+      if(!exists) out.push(boundary);
+    }
+  }
+  // Sort by weight for clean lines
+  out.sort((a,b)=>a.w - b.w);
+  return out;
+}
+
+// ---- Battery mass in the loop ----
+export type PackDensity = { densityMode: 'whkg' | 'gah'; whPerKg: number; gPerAh: number; gPerAhCells: number };
+// Pack mass per Ah, from either a specific energy (Wh/kg) or a measured mass per Ah at a cell count
+export function packKgPerAh({ densityMode, whPerKg, gPerAh, gPerAhCells }: PackDensity, cells: number, chemistry: string): number {
+  if(densityMode === 'gah') return (gPerAh / 1000) * (cells / (gPerAhCells || cells));
+  const nominalV = byId(CHEMISTRIES, chemistry)?.nominalV ?? SPEC_CELL_V;
+  return whPerKg > 0 ? cells * nominalV / whPerKg : 0;
+}
+export type CapacityPoint = { cap: number; t: number; takeoff: number; est: boolean };
+// Flight time vs capacity when every added Ah also adds pack mass. baseKg is everything but the pack.
+export function buildCapacityCurve(series: SeriesPoint[] | null | undefined, motorCount: number, thrustFactor: number, specCells: number | null, battery: Battery, baseKg: number, kgPerAh: number, maxCapAh: number, model: FitModel = 'linear', points = 50): CapacityPoint[] {
+  if(!series || !series.length || !(maxCapAh > 0)) return [];
+  const minLift = Math.min(...series.map(p=>p.y));
+  const out: CapacityPoint[] = [];
+  for(let i=1;i<=points;i++){
+    const cap = maxCapAh * i / points;
+    const takeoff = baseKg + cap * kgPerAh;
+    const lift = takeoff / (motorCount * thrustFactor);
+    const hover = interpolateCurrentForLift(series, lift, model);
+    if(!hover.ok) break; // heavier packs only get worse
+    const flight = simulateFlight(hover.currentA, motorCount, specCells, { ...battery, capacityAh:cap }, 600);
+    if(flight) out.push({ cap, t: flight.minutes, takeoff, est: lift < minLift - 1e-9 });
+  }
+  return out;
+}
+export function curveOptimum<T extends { t: number }>(curve: T[] | null | undefined): T | null {
+  return (curve || []).reduce<T | null>((best, d) => (!best || d.t > best.t ? d : best), null);
+}
+
+// ---- Performance ----
+export type PerfPoint = { thrust: number; throttle: number | undefined; power: number; gpw: number | null };
+export function perfPoint(thrustKg: number, currentA: number, throttle: number | undefined, volts: number): PerfPoint {
+  const power = currentA * volts;
+  return { thrust: thrustKg, throttle, power, gpw: power > 0 ? thrustKg * 1000 / power : null };
+}
+export function perfPoints(series: SeriesPoint[] | null | undefined, volts: number): PerfPoint[] {
+  return (series || []).map(p => perfPoint(p.y, p.x, p.throttle, volts));
+}
+
+// ---- Air density ----
+export const SEA_LEVEL_RHO = 1.225; // kg/m³, ISA at 15 °C
+// Moist-air density at an elevation (ISA pressure) and the actual temperature/humidity
+export function airDensity(elevationM: number, tempC: number, humidityPct = 0): number {
+  const p = 101325 * Math.pow(1 - 2.25577e-5 * elevationM, 5.25588);
+  const T = tempC + 273.15;
+  const pv = (humidityPct / 100) * 610.78 * Math.pow(10, 7.5 * tempC / (tempC + 237.3)); // Tetens saturation pressure
+  return (p - pv) / (287.058 * T) + pv / (461.495 * T);
+}
+// ISA altitude with the same density
+export function densityAltitude(rho: number): number {
+  return 44330.8 * (1 - Math.pow(rho / SEA_LEVEL_RHO, 0.234969));
+}
+// At a fixed RPM (≈ throttle) thrust and shaft power both scale with density; at a fixed pack
+// voltage current follows power, so each sample keeps its throttle and scales thrust and current by σ = ρ/ρ₀.
+export function densityCorrected<T extends DataPoint>(points: T[] | null | undefined, sigma: number): T[] | null | undefined {
+  if(!points || sigma === 1) return points;
+  return points.map(p => ({ ...p, thrust_kg: p.thrust_kg * sigma, current: p.current * sigma }));
+}